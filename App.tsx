@@ -4,8 +4,8 @@ import { GitCanvas } from './components/GitCanvas';
 import { Terminal } from './components/Terminal';
 import { GuidePanel } from './components/GuidePanel';
 import { RepositoryInfo } from './components/RepositoryInfo';
-import { executeGitCommand, LESSONS, PRACTICE_LESSON } from './utils/gitLogic';
-import { GitState, LogEntry } from './types';
+import { executeGitCommand, stepRebase, submitRebaseTodo, keepUserConfig, LESSONS, PRACTICE_LESSON } from './utils/gitLogic';
+import { GitState, GitEvent, LogEntry, RebaseTodoItem } from './types';
 import { RotateCcw, Map, Code2, HelpCircle, Trophy, Sun, Moon, Undo, Redo, History, Download, Menu, X } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import { AchievementBadge } from './components/AchievementBadge';
@@ -17,6 +17,8 @@ const CurriculumView = lazy(() => import('./components/CurriculumView').then(m =
 const LandingPage = lazy(() => import('./components/LandingPage').then(m => ({ default: m.LandingPage })));
 const CommandReference = lazy(() => import('./components/CommandReference').then(m => ({ default: m.CommandReference })));
 const FeatureGuide = lazy(() => import('./components/FeatureGuide').then(m => ({ default: m.FeatureGuide })));
+const DiffViewer = lazy(() => import('./components/DiffViewer').then(m => ({ default: m.DiffViewer })));
+const RebaseTodoEditor = lazy(() => import('./components/RebaseTodoEditor').then(m => ({ default: m.RebaseTodoEditor })));
 
 
 const LoadingFallback = () => (
@@ -127,11 +129,13 @@ export default function App() {
   });
 
   const [gitState, setGitState] = useState<GitState>(LESSONS[0].initialState);
+  const [lastEvents, setLastEvents] = useState<GitEvent[]>([]);
   const [logs, setLogs] = useState<LogEntry[]>([{ id: '0', type: 'info', text: `Welcome to GitJourney.` }]);
   const [showHelp, setShowHelp] = useState(false);
   const [hasShownSuccessForLevel, setHasShownSuccessForLevel] = useState(false);
   const [showFeatureGuide, setShowFeatureGuide] = useState(false);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
+  const [selectedCommitId, setSelectedCommitId] = useState<string | null>(null);
 
 
   const [historyStates, setHistoryStates] = useState<HistoryState[]>([]);
@@ -299,7 +303,8 @@ export default function App() {
 
   const startLesson = (index: number) => {
     setCurrentLessonIdx(index);
-    setGitState(LESSONS[index].initialState);
+    setGitState(prev => keepUserConfig(LESSONS[index].initialState, prev));
+    setLastEvents([]);
     setLogs([{ id: uuidv4(), type: 'info', text: `Started Level ${index + 1}: ${LESSONS[index].title}` }]);
     setView('workspace');
     setHasShownSuccessForLevel(false);
@@ -311,7 +316,8 @@ export default function App() {
 
   const startPractice = () => {
     setCurrentLessonIdx(-1);
-    setGitState(PRACTICE_LESSON.initialState);
+    setGitState(prev => keepUserConfig(PRACTICE_LESSON.initialState, prev));
+    setLastEvents([]);
     setLogs([{ id: uuidv4(), type: 'info', text: `Started Practice Sandbox` }]);
     setView('workspace');
   };
@@ -325,7 +331,8 @@ export default function App() {
   };
 
   const resetLesson = () => {
-    setGitState(currentLesson.initialState);
+    setGitState(prev => keepUserConfig(currentLesson.initialState, prev));
+    setLastEvents([]);
     setLogs([{ id: uuidv4(), type: 'info', text: `Reset: ${currentLesson.title}` }]);
     setHasShownSuccessForLevel(false);
   };
@@ -342,47 +349,57 @@ export default function App() {
     }
 
 
-    const commands = cmd.split('&&').map(c => c.trim()).filter(c => c.length > 0);
-
-
     setGitState(currentState => {
-      let state = currentState;
-      let allOutputs: string[] = [];
-      let allSuccess = true;
+      const result = executeGitCommand(cmd, currentState);
+      const state = result.newState;
+      setLastEvents(result.events ?? []);
 
-      for (const singleCmd of commands) {
-        const result = executeGitCommand(singleCmd, state);
+      const advice = result.error && currentLesson.mistakes?.[result.error.code];
 
-        if (result.success) {
-          state = result.newState;
-          allOutputs.push(result.output);
-        } else {
-          allSuccess = false;
-          allOutputs.push(result.output);
+      setLogs(prevLogs => {
+        const newLogs: LogEntry[] = [...prevLogs, { id: uuidv4(), type: 'command', text: cmd }, { id: uuidv4(), type: result.success ? 'success' : 'error', text: result.output }];
+        if (advice) newLogs.push({ id: uuidv4(), type: 'info', text: advice });
+        saveToHistory(state, newLogs);
+        return newLogs;
+      });
 
-          break;
-        }
+      return state;
+    });
+  }, [currentLesson]);
+
+  const handleRebaseTodo = useCallback((todo: RebaseTodoItem[]) => {
+    setGitState(currentState => {
+      const result = submitRebaseTodo(currentState, todo);
+      setLastEvents(result.events ?? []);
+      if (result.output) {
+        setLogs(prevLogs => [...prevLogs, { id: uuidv4(), type: result.success ? 'success' : 'error', text: result.output }]);
       }
+      return result.newState;
+    });
+  }, []);
 
-      const combinedOutput = allOutputs.join('\n\n');
+  // Replays a running rebase one todo item at a time so the graph can be
+  // watched as each commit lands; stops and edits hand control back to the user.
+  useEffect(() => {
+    const rebase = gitState.rebase;
+    if (!rebase || rebase.editingTodo || rebase.stopped) return;
 
-      if (allSuccess) {
-        setLogs(prevLogs => {
-          const newLogs = [...prevLogs, { id: uuidv4(), type: 'command', text: cmd }, { id: uuidv4(), type: 'success', text: combinedOutput }];
-          saveToHistory(state, newLogs);
-          return newLogs;
-        });
-      } else {
+    const timer = setTimeout(() => {
+      setGitState(currentState => {
+        const result = stepRebase(currentState);
+        setLastEvents(result.events ?? []);
         setLogs(prevLogs => {
-          const newLogs = [...prevLogs, { id: uuidv4(), type: 'command', text: cmd }, { id: uuidv4(), type: 'error', text: combinedOutput }];
-          saveToHistory(currentState, newLogs);
+          const newLogs: LogEntry[] = result.output
+            ? [...prevLogs, { id: uuidv4(), type: result.success ? 'success' : 'error', text: result.output }]
+            : prevLogs;
+          saveToHistory(result.newState, newLogs);
           return newLogs;
         });
-      }
-
-      return state;
-    });
-  }, []);
+        return result.newState;
+      });
+    }, 700);
+    return () => clearTimeout(timer);
+  }, [gitState]);
 
 
   useEffect(() => {
@@ -396,6 +413,7 @@ export default function App() {
       if (e.key === 'Escape') {
         setShowHelp(false);
         setShowCommandHistory(false);
+        setSelectedCommitId(null);
       }
 
       if (e.ctrlKey && e.key === 'z' && !e.shiftKey) {
@@ -496,6 +514,20 @@ export default function App() {
           <CommandReference isOpen={showHelp} onClose={() => setShowHelp(false)} />
         </Suspense>
       )}
+      {selectedCommitId && (
+        <Suspense fallback={null}>
+          <DiffViewer gitState={gitState} commitId={selectedCommitId} onClose={() => setSelectedCommitId(null)} />
+        </Suspense>
+      )}
+      {gitState.rebase?.editingTodo && (
+        <Suspense fallback={null}>
+          <RebaseTodoEditor
+            gitState={gitState}
+            onSubmit={handleRebaseTodo}
+            onAbort={() => handleCommand('git rebase --abort')}
+          />
+        </Suspense>
+      )}
 
       <div className="flex flex-col h-full p-4 gap-4 max-w-[1920px] mx-auto w-full overflow-hidden">
 
@@ -786,7 +818,7 @@ export default function App() {
               <div className="absolute bottom-0 left-0 w-3 h-3 md:w-4 md:h-4 border-b-2 border-l-2 border-indigo-500/50 dark:border-indigo-400 rounded-bl-xl opacity-50 group-hover:opacity-100 transition-opacity z-20 m-1.5 md:m-2"></div>
               <div className="absolute bottom-0 right-0 w-3 h-3 md:w-4 md:h-4 border-b-2 border-r-2 border-indigo-500/50 dark:border-indigo-400 rounded-br-xl opacity-50 group-hover:opacity-100 transition-opacity z-20 m-1.5 md:m-2"></div>
 
-              <GitCanvas gitState={gitState} isDarkMode={isDarkMode} />
+              <GitCanvas gitState={gitState} isDarkMode={isDarkMode} onSelectCommit={setSelectedCommitId} recentEvents={lastEvents} />
             </div>
           </div>
 
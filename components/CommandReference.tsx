@@ -1,5 +1,23 @@
 import React, { useState, useMemo } from 'react';
 import { X, Command, Terminal, Search } from 'lucide-react';
+import { COMMANDS } from '../utils/gitLogic';
+import { commandReference } from '../utils/commands';
+
+// The shell commands the terminal understands; git commands come from the
+// command registry
+const WORKING_FILES = {
+  title: "Working Files",
+  cmds: [
+    { cmd: "touch <file>", desc: "Create an empty file" },
+    { cmd: "echo \"text\" > <file>", desc: "Write text to a file (>> appends)" },
+    { cmd: "cat <file>", desc: "Print a file's contents" },
+    { cmd: "ls", desc: "List files in the working tree" },
+    { cmd: "rm <file>", desc: "Delete a file" },
+    { cmd: "<cmd> && <cmd>", desc: "Run the next command only if the first succeeds" },
+    { cmd: "<cmd> || <cmd>", desc: "Run the next command only if the first fails (; always runs)" },
+    { cmd: "git status > <file>", desc: "Write a command's output to a file" },
+  ]
+};
 
 interface CommandReferenceProps {
   isOpen: boolean;
@@ -11,48 +29,8 @@ export const CommandReference: React.FC<CommandReferenceProps> = ({ isOpen, onCl
 
   if (!isOpen) return null;
 
-  const allCategories = [
-    {
-      title: "Essentials",
-      cmds: [
-        { cmd: "git init", desc: "Initialize a new repository" },
-        { cmd: "git add .", desc: "Stage all changes" },
-        { cmd: "git commit -m \"msg\"", desc: "Commit staged changes" },
-        { cmd: "git status", desc: "Show modified files" },
-        { cmd: "git log", desc: "View commit history" },
-      ]
-    },
-    {
-      title: "Branching",
-      cmds: [
-        { cmd: "git branch <name>", desc: "Create a new branch" },
-        { cmd: "git checkout <name>", desc: "Switch to a branch" },
-        { cmd: "git checkout -b <name>", desc: "Create & switch branch" },
-        { cmd: "git merge <branch>", desc: "Merge branch into current" },
-      ]
-    },
-    {
-      title: "Remote / GitHub",
-      cmds: [
-        { cmd: "git remote add origin <url>", desc: "Connect to GitHub" },
-        { cmd: "git push -u origin main", desc: "Upload branch to GitHub" },
-        { cmd: "git fetch", desc: "Download remote changes" },
-        { cmd: "git pull", desc: "Fetch and merge changes" },
-        { cmd: "git clone <url>", desc: "Download a repo" },
-      ]
-    },
-    {
-      title: "Advanced",
-      cmds: [
-        { cmd: "git reset --hard <ref>", desc: "Move HEAD backward (destructive)" },
-        { cmd: "git revert <commit>", desc: "Undo a commit safely" },
-        { cmd: "git cherry-pick <commit>", desc: "Copy a specific commit" },
-        { cmd: "git commit --amend", desc: "Change last commit message" },
-        { cmd: "git rebase <branch>", desc: "Reapply commits on top of another branch" },
-        { cmd: "git tag <name>", desc: "Create a tag at current commit" },
-      ]
-    }
-  ];
+  const [essentials, ...gitCategories] = commandReference(COMMANDS);
+  const allCategories = [essentials, WORKING_FILES, ...gitCategories];
 
   const categories = useMemo(() => {
     if (!searchQuery.trim()) return allCategories;
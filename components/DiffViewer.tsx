@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { X, FileDiff as FileDiffIcon, Hash, User, GitMerge } from 'lucide-react';
+import { GitState, DiffLine } from '../types';
+import { getCommitDiff } from '../utils/gitLogic';
+import { toSideBySide } from '../utils/diff';
+
+interface DiffViewerProps {
+  gitState: GitState;
+  commitId: string;
+  onClose: () => void;
+}
+
+const STATUS_STYLES = {
+  added: 'text-emerald-600 dark:text-emerald-400',
+  deleted: 'text-red-600 dark:text-red-400',
+  modified: 'text-amber-600 dark:text-amber-400',
+};
+
+const DiffCell: React.FC<{ line: DiffLine | null; side: 'left' | 'right' }> = ({ line, side }) => {
+  if (!line) {
+    return <td colSpan={2} className="bg-slate-100 dark:bg-slate-800/40" />;
+  }
+  const number = side === 'left' ? line.oldNumber : line.newNumber;
+  const tone = line.type === 'add'
+    ? 'bg-emerald-50 dark:bg-emerald-500/10 text-emerald-800 dark:text-emerald-300'
+    : line.type === 'remove'
+      ? 'bg-red-50 dark:bg-red-500/10 text-red-800 dark:text-red-300'
+      : 'text-slate-700 dark:text-slate-300';
+
+  return (
+    <>
+      <td className={`w-10 px-2 text-right select-none text-slate-400 dark:text-slate-600 ${tone}`}>{number}</td>
+      <td className={`px-2 whitespace-pre-wrap break-all ${tone}`}>
+        {line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}{line.text}
+      </td>
+    </>
+  );
+};
+
+export const DiffViewer: React.FC<DiffViewerProps> = ({ gitState, commitId, onClose }) => {
+  const commit = gitState.commits.find(c => c.id === commitId);
+  const diffs = useMemo(() => getCommitDiff(gitState, commitId), [gitState, commitId]);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  if (!commit) return null;
+
+  const selected = diffs.find(d => d.path === selectedPath) ?? diffs[0];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-2xl shadow-2xl w-full max-w-6xl max-h-[85vh] flex flex-col transition-colors"
+        onClick={(e) => e.stopPropagation()}
+      >
+
+        <div className="flex items-center justify-between p-6 border-b border-slate-200 dark:border-slate-800">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="bg-indigo-50 dark:bg-indigo-500/20 p-2 rounded-lg text-indigo-600 dark:text-indigo-400">
+              <FileDiffIcon size={24} />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white truncate">{commit.message}</h2>
+              <p className="text-slate-500 dark:text-slate-400 text-xs font-mono flex items-center gap-3">
+                <span className="flex items-center gap-1"><Hash size={12} /> {commit.id}</span>
+                <span className="flex items-center gap-1"><User size={12} /> {commit.author}</span>
+                {commit.secondParentId && <span className="flex items-center gap-1"><GitMerge size={12} /> compared with first parent</span>}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:text-slate-500 dark:hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+
+        {diffs.length === 0 ? (
+          <div className="flex-1 p-10 text-center text-slate-500 dark:text-slate-400 text-sm">
+            This commit does not change any files.
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 flex">
+            <div className="w-56 shrink-0 border-r border-slate-200 dark:border-slate-800 overflow-y-auto custom-scrollbar p-3 space-y-1">
+              {diffs.map(d => (
+                <button
+                  key={d.path}
+                  onClick={() => setSelectedPath(d.path)}
+                  className={`w-full text-left px-3 py-2 rounded-lg font-mono text-xs transition-colors ${d.path === selected?.path
+                    ? 'bg-indigo-600 text-white'
+                    : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800'
+                    }`}
+                >
+                  <div className="truncate">{d.path}</div>
+                  <div className={`text-[10px] ${d.path === selected?.path ? 'text-indigo-100' : STATUS_STYLES[d.status]}`}>
+                    {d.status} +{d.additions} -{d.deletions}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex-1 min-w-0 overflow-auto custom-scrollbar">
+              <table className="w-full font-mono text-xs border-collapse">
+                <thead className="sticky top-0 bg-slate-50 dark:bg-slate-900 text-slate-500 dark:text-slate-400">
+                  <tr>
+                    <th colSpan={2} className="text-left px-3 py-2 border-b border-slate-200 dark:border-slate-800">
+                      {selected.status === 'added' ? '/dev/null' : `a/${selected.path}`}
+                    </th>
+                    <th colSpan={2} className="text-left px-3 py-2 border-b border-l border-slate-200 dark:border-slate-800">
+                      {selected.status === 'deleted' ? '/dev/null' : `b/${selected.path}`}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {toSideBySide(selected.lines).map((row, idx) => (
+                    <tr key={idx} className="align-top">
+                      <DiffCell line={row.left} side="left" />
+                      <DiffCell line={row.right} side="right" />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,14 @@
 import React, { useMemo, useState, memo } from 'react';
-import { GitState, GraphNode } from '../types';
-import { GitBranch, User, Hash, GitMerge, Tag, Cloud, Activity, Layers } from 'lucide-react';
+import { GitState, GitEvent, GraphNode, Tag as GitTag } from '../types';
+import { GitBranch, User, Hash, GitMerge, Tag, Cloud, Activity, Layers, Archive, Ghost } from 'lucide-react';
+import { getAbandonedCommits, getParentIds } from '../utils/gitLogic';
 
 interface GitCanvasProps {
     gitState: GitState;
     isDarkMode: boolean;
+    onSelectCommit?: (commitId: string) => void;
+    // What the last command did; commits it created or rewrote get a ping
+    recentEvents?: GitEvent[];
 }
 
 
@@ -34,9 +38,12 @@ const LIGHT_LANE_COLORS = [
 ];
 
 
-export const GitCanvas: React.FC<GitCanvasProps> = memo(({ gitState, isDarkMode }) => {
+export const GitCanvas: React.FC<GitCanvasProps> = memo(({ gitState, isDarkMode, onSelectCommit, recentEvents }) => {
     const [hoveredNode, setHoveredNode] = useState<string | null>(null);
     const LANE_COLORS = isDarkMode ? DARK_LANE_COLORS : LIGHT_LANE_COLORS;
+    const freshCommits = useMemo(() => new Set((recentEvents ?? []).flatMap(e =>
+        e.type === 'commit-created' ? [e.commitId] : e.type === 'commit-rewritten' ? [e.to] : [])), [recentEvents]);
+    const abandonedCommits = useMemo(() => getAbandonedCommits(gitState), [gitState]);
 
 
     const { nodes, links, height, width, maxLane } = useMemo(() => {
@@ -48,11 +55,13 @@ export const GitCanvas: React.FC<GitCanvasProps> = memo(({ gitState, isDarkMode
         const branchLanes = new Map<string, number>();
         let laneCounter = 0;
         const mainBranch = gitState.branches.find(b => b.name === 'main');
+        // Remote-tracking branches get lanes after the local ones so fetched work shows up beside them
+        const allBranches = [...gitState.branches, ...gitState.remoteBranches];
         if (mainBranch) {
             branchLanes.set('main', 0);
             laneCounter = 1;
         }
-        gitState.branches.forEach(b => {
+        allBranches.forEach(b => {
             if (b.name !== 'main' && !branchLanes.has(b.name)) {
                 branchLanes.set(b.name, laneCounter++);
             }
@@ -70,14 +79,11 @@ export const GitCanvas: React.FC<GitCanvasProps> = memo(({ gitState, isDarkMode
                 history.set(currId, lane);
                 visited.add(currId);
                 const c = gitState.commits.find(x => x.id === currId);
-                if (c) {
-                    if (c.parentId) queue.push(c.parentId);
-                    if (c.secondParentId) queue.push(c.secondParentId);
-                }
+                if (c) queue.push(...getParentIds(c));
             }
         };
         if (mainBranch) trace(mainBranch.commitId, 0);
-        gitState.branches.forEach(b => {
+        allBranches.forEach(b => {
             if (b.name !== 'main') trace(b.commitId, branchLanes.get(b.name)!);
         });
         sortedCommits.forEach(c => {
@@ -85,7 +91,7 @@ export const GitCanvas: React.FC<GitCanvasProps> = memo(({ gitState, isDarkMode
                 history.set(c.id, laneCounter);
             }
         });
-        const nodes: (GraphNode & { refs: string[], tags: string[] })[] = [];
+        const nodes: (GraphNode & { refs: string[], tags: GitTag[] })[] = [];
         const links: any[] = [];
         sortedCommits.forEach((commit, index) => {
             const lane = history.get(commit.id) || 0;
@@ -93,15 +99,14 @@ export const GitCanvas: React.FC<GitCanvasProps> = memo(({ gitState, isDarkMode
             const y = PADDING_TOP + (index * ROW_HEIGHT);
             const color = LANE_COLORS[lane % LANE_COLORS.length];
             const refs: string[] = [];
-            gitState.branches.forEach(b => { if (b.commitId === commit.id) refs.push(b.name) });
-            const tags: string[] = [];
-            gitState.tags.forEach(t => { if (t.commitId === commit.id) tags.push(t.name) });
+            allBranches.forEach(b => { if (b.commitId === commit.id) refs.push(b.name) });
+            gitState.stash.forEach((id, n) => { if (id === commit.id) refs.push(`stash@{${n}}`) });
+            const tags = gitState.tags.filter(t => t.commitId === commit.id);
             if (gitState.head.type === 'commit' && gitState.head.ref === commit.id) {
                 refs.push("HEAD");
             }
             nodes.push({ ...commit, x, y, lane, color, refs, tags });
-            [commit.parentId, commit.secondParentId].forEach((pid, i) => {
-                if (!pid) return;
+            getParentIds(commit).forEach((pid, i) => {
                 const parentNode = sortedCommits.find(c => c.id === pid);
                 if (!parentNode) return;
                 const parentIndex = sortedCommits.findIndex(c => c.id === pid);
@@ -114,8 +119,8 @@ export const GitCanvas: React.FC<GitCanvasProps> = memo(({ gitState, isDarkMode
                 links.push({
                     id: `${commit.id}-${pid}`,
                     d,
-                    color: i === 1 ? (isDarkMode ? '#475569' : '#94a3b8') : color,
-                    isMerge: i === 1,
+                    color: i > 0 ? (isDarkMode ? '#475569' : '#94a3b8') : color,
+                    isMerge: i > 0,
                     source: commit.id,
                     target: pid
                 });
@@ -179,6 +184,15 @@ export const GitCanvas: React.FC<GitCanvasProps> = memo(({ gitState, isDarkMode
            0%, 100% { opacity: 1; filter: drop-shadow(0 0 5px currentColor); }
            50% { opacity: 0.7; filter: drop-shadow(0 0 2px currentColor); }
         }
+        .animate-ping-once {
+          animation: pingOnce 1s cubic-bezier(0, 0, 0.2, 1) forwards;
+          transform-box: fill-box;
+          transform-origin: center;
+        }
+        @keyframes pingOnce {
+          0% { opacity: 0.8; transform: scale(1); }
+          100% { opacity: 0; transform: scale(3); }
+        }
       `}</style>
 
             <svg width="100%" height={height} style={{ minWidth: width }} className="relative z-10">
@@ -203,10 +217,10 @@ export const GitCanvas: React.FC<GitCanvasProps> = memo(({ gitState, isDarkMode
                         stroke={link.color}
                         strokeWidth={link.isMerge ? 2 : 4}
                         strokeLinecap="round"
-                        strokeDasharray={link.isMerge ? "6,4" : "none"}
+                        strokeDasharray={link.isMerge || abandonedCommits.has(link.source) ? "6,4" : "none"}
                         className="transition-all duration-500 opacity-80 hover:opacity-100"
                         style={{ filter: `drop-shadow(0 0 3px ${link.color})` }}
-                        opacity={hoveredNode && (link.source !== hoveredNode && link.target !== hoveredNode) ? 0.1 : 1}
+                        opacity={hoveredNode && (link.source !== hoveredNode && link.target !== hoveredNode) ? 0.1 : abandonedCommits.has(link.source) ? 0.3 : 1}
                     />
                 ))}
 
@@ -221,16 +235,21 @@ export const GitCanvas: React.FC<GitCanvasProps> = memo(({ gitState, isDarkMode
                             transform={`translate(${node.x}, ${node.y})`}
                             onMouseEnter={() => setHoveredNode(node.id)}
                             onMouseLeave={() => setHoveredNode(null)}
+                            onClick={() => onSelectCommit?.(node.id)}
                             className="cursor-pointer transition-opacity duration-300"
-                            opacity={hoveredNode && hoveredNode !== node.id ? 0.4 : 1}
+                            opacity={hoveredNode && hoveredNode !== node.id ? 0.4 : abandonedCommits.has(node.id) ? 0.45 : 1}
                         >
                             {isHead && (
                                 <circle r={16} fill="none" stroke={node.color} strokeWidth={3} strokeDasharray="2,4" className="animate-spin-slow" opacity={0.7} />
                             )}
 
+                            {freshCommits.has(node.id) && (
+                                <circle r={NODE_RADIUS + 2} fill="none" stroke={node.color} strokeWidth={2} className="animate-ping-once" />
+                            )}
+
                             <circle r={NODE_RADIUS + 2} fill={node.color} opacity={0.3} className="animate-pulse-glow" />
 
-                            <circle r={NODE_RADIUS} fill={isDarkMode ? "#0f172a" : "#ffffff"} stroke={node.color} strokeWidth={3} />
+                            <circle r={NODE_RADIUS} fill={isDarkMode ? "#0f172a" : "#ffffff"} stroke={node.color} strokeWidth={3} strokeDasharray={abandonedCommits.has(node.id) ? "3,3" : undefined} />
                             {node.secondParentId && <circle r={3} fill={node.color} />}
                         </g>
                     );
@@ -250,7 +269,7 @@ export const GitCanvas: React.FC<GitCanvasProps> = memo(({ gitState, isDarkMode
                             style={{
                                 top: node.y - 16,
                                 left: node.x + 28,
-                                opacity: hoveredNode && hoveredNode !== node.id ? 0.3 : 1
+                                opacity: hoveredNode && hoveredNode !== node.id ? 0.3 : abandonedCommits.has(node.id) ? 0.5 : 1
                             }}
                         >
 
@@ -259,7 +278,8 @@ export const GitCanvas: React.FC<GitCanvasProps> = memo(({ gitState, isDarkMode
                                 {node.refs.map(ref => {
                                     const isActive = gitState.head.ref === ref;
                                     const isDetachedHead = ref === 'HEAD';
-                                    const isRemote = ref.startsWith('origin/');
+                                    const isRemote = gitState.remoteBranches.some(b => b.name === ref);
+                                    const isStash = ref.startsWith('stash@');
 
                                     let colors = isDarkMode
                                         ? 'bg-slate-900 text-slate-400 border-slate-700'
@@ -270,6 +290,11 @@ export const GitCanvas: React.FC<GitCanvasProps> = memo(({ gitState, isDarkMode
                                             ? 'bg-red-950/80 text-red-400 border-red-500/50'
                                             : 'bg-red-50 text-red-600 border-red-200';
                                     }
+                                    else if (isStash) {
+                                        colors = isDarkMode
+                                            ? 'bg-violet-950/80 text-violet-300 border-violet-500/50 border-dotted'
+                                            : 'bg-violet-50 text-violet-600 border-violet-300 border-dotted';
+                                    }
                                     else if (isRemote) {
                                         colors = isDarkMode
                                             ? 'bg-sky-950/80 text-sky-400 border-sky-500/50 border-dashed'
@@ -286,27 +311,35 @@ export const GitCanvas: React.FC<GitCanvasProps> = memo(({ gitState, isDarkMode
                                     flex items-center gap-1 px-2.5 py-1 rounded-full text-[10px] font-extrabold uppercase tracking-wide border
                                     ${colors} animate-pop-in backdrop-blur-md transition-transform hover:scale-105
                                 `}>
-                                            {isRemote ? <Cloud size={10} /> : <GitBranch size={10} />}
+                                            {isStash ? <Archive size={10} /> : isRemote ? <Cloud size={10} /> : <GitBranch size={10} />}
                                             {ref}
                                         </span>
                                     );
                                 })}
 
                                 {node.tags.map((tag, tagIdx) => (
-                                    <span key={`${node.id}-tag-${tagIdx}-${tag}`} className={`
+                                    // Annotated tags are solid, lightweight tags only outlined
+                                    <span key={`${node.id}-tag-${tagIdx}-${tag.name}`}
+                                        title={tag.annotation ? `${tag.annotation.message}\n— ${tag.annotation.tagger}` : 'Lightweight tag'}
+                                        className={`
                                 flex items-center gap-1 px-2.5 py-1 rounded-full text-[10px] font-extrabold uppercase tracking-wide border 
-                                ${isDarkMode ? 'bg-amber-500/20 text-amber-400 border-amber-500/50' : 'bg-amber-50 text-amber-600 border-amber-300'}
+                                ${tag.annotation
+                                            ? 'bg-amber-500 text-white border-amber-500'
+                                            : `border-dashed ${isDarkMode ? 'bg-amber-500/20 text-amber-400 border-amber-500/50' : 'bg-amber-50 text-amber-600 border-amber-300'}`}
                                 animate-pop-in backdrop-blur-sm shadow-sm hover:scale-105 transition-transform`
                                     }>
                                         <Tag size={10} />
-                                        {tag}
+                                        {tag.name}
                                     </span>
                                 ))}
                             </div>
 
 
-                            <div className={`
-                        px-4 py-2 rounded-xl border flex items-center gap-4 shadow-lg pointer-events-auto transition-all group-hover:translate-x-2 duration-300
+                            <div
+                                onClick={() => onSelectCommit?.(node.id)}
+                                title="View changes"
+                                className={`
+                        px-4 py-2 rounded-xl border flex items-center gap-4 shadow-lg pointer-events-auto cursor-pointer transition-all group-hover:translate-x-2 duration-300
                         ${isDarkMode
                                     ? 'bg-slate-900/80 backdrop-blur-xl border-white/10 hover:bg-slate-800 text-slate-300'
                                     : 'bg-white/90 backdrop-blur-xl border-slate-200 hover:bg-white text-slate-700'}
@@ -317,7 +350,12 @@ export const GitCanvas: React.FC<GitCanvasProps> = memo(({ gitState, isDarkMode
                                 <div className={`flex items-center gap-3 text-[10px] font-mono border-l pl-3 ${isDarkMode ? 'text-slate-500 border-white/10' : 'text-slate-400 border-slate-200'}`}>
                                     <span className="flex items-center gap-1"><Hash size={10} /> {node.id.substring(0, 4)}</span>
                                     <span className="flex items-center gap-1"><User size={10} /> {node.author}</span>
-                                    {node.secondParentId && <span className="flex items-center gap-1 text-emerald-500 dark:text-emerald-400"><GitMerge size={10} /> Merge</span>}
+                                    {node.secondParentId && <span className="flex items-center gap-1 text-emerald-500 dark:text-emerald-400"><GitMerge size={10} /> {node.otherParentIds ? 'Octopus' : 'Merge'}</span>}
+                                    {abandonedCommits.has(node.id) && (
+                                        <span title="No branch or tag points here any more; only the reflog still reaches this commit" className="flex items-center gap-1">
+                                            <Ghost size={10} /> Abandoned
+                                        </span>
+                                    )}
                                 </div>
                             </div>
                         </div>
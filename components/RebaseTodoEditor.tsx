@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { X, ListOrdered, ChevronUp, ChevronDown, Play } from 'lucide-react';
+import { GitState, RebaseAction, RebaseTodoItem } from '../types';
+
+interface RebaseTodoEditorProps {
+  gitState: GitState;
+  onSubmit: (todo: RebaseTodoItem[]) => void;
+  onAbort: () => void;
+}
+
+const ACTIONS: { action: RebaseAction; desc: string }[] = [
+  { action: 'pick', desc: 'use commit' },
+  { action: 'reword', desc: 'use commit, but edit the commit message' },
+  { action: 'edit', desc: 'use commit, but stop for amending' },
+  { action: 'squash', desc: 'use commit, but meld into previous commit' },
+  { action: 'fixup', desc: "like squash, but discard this commit's message" },
+  { action: 'drop', desc: 'remove commit' },
+];
+
+const ACTION_STYLES: Record<RebaseAction, string> = {
+  pick: 'text-emerald-600 dark:text-emerald-400',
+  reword: 'text-sky-600 dark:text-sky-400',
+  edit: 'text-amber-600 dark:text-amber-400',
+  squash: 'text-violet-600 dark:text-violet-400',
+  fixup: 'text-violet-600 dark:text-violet-400',
+  drop: 'text-red-600 dark:text-red-400',
+};
+
+export const RebaseTodoEditor: React.FC<RebaseTodoEditorProps> = ({ gitState, onSubmit, onAbort }) => {
+  const rebase = gitState.rebase;
+  const [todo, setTodo] = useState<RebaseTodoItem[]>(() => rebase?.todo ?? []);
+
+  if (!rebase) return null;
+
+  const originalMessage = (commitId: string) => gitState.commits.find(c => c.id === commitId)?.message ?? '';
+
+  const update = (idx: number, changes: Partial<RebaseTodoItem>) =>
+    setTodo(prev => prev.map((item, i) => (i === idx ? { ...item, ...changes } : item)));
+
+  const move = (idx: number, offset: number) =>
+    setTodo(prev => {
+      const target = idx + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[idx], next[target]] = [next[target], next[idx]];
+      return next;
+    });
+
+  const changeAction = (idx: number, action: RebaseAction) =>
+    update(idx, action === 'reword' ? { action } : { action, message: originalMessage(todo[idx].commitId) });
+
+  const branchLabel = rebase.branch ?? 'detached HEAD';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col transition-colors">
+
+        <div className="flex items-center justify-between p-6 border-b border-slate-200 dark:border-slate-800">
+          <div className="flex items-center gap-3">
+            <div className="bg-indigo-50 dark:bg-indigo-500/20 p-2 rounded-lg text-indigo-600 dark:text-indigo-400">
+              <ListOrdered size={24} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white">Interactive Rebase</h2>
+              <p className="text-slate-500 dark:text-slate-400 text-sm font-mono">
+                Rebase {branchLabel} onto {rebase.ontoId.substring(0, 7)} ({todo.length} command{todo.length === 1 ? '' : 's'})
+              </p>
+            </div>
+          </div>
+          {/* Closing the editor keeps the todo as it was, like quitting git's editor without saving */}
+          <button onClick={() => onSubmit(rebase.todo)} className="text-slate-400 hover:text-slate-600 dark:text-slate-500 dark:hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 custom-scrollbar space-y-2">
+          {rebase.done.map((item, idx) => (
+            <div key={`done-${idx}`} className="flex items-center gap-3 px-3 py-2 rounded-lg font-mono text-sm text-slate-400 dark:text-slate-600 line-through">
+              <span className="w-16">{item.action}</span>
+              <span>{item.commitId.substring(0, 7)}</span>
+              <span className="truncate">{item.message.split('\n')[0]}</span>
+            </div>
+          ))}
+
+          {todo.length === 0 && (
+            <div className="text-center text-slate-500 dark:text-slate-400 text-sm py-6">noop — there is nothing to replay</div>
+          )}
+
+          {todo.map((item, idx) => (
+            <div key={item.commitId} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700/50">
+              <div className="flex flex-col">
+                <button onClick={() => move(idx, -1)} disabled={idx === 0} className="text-slate-400 hover:text-indigo-500 disabled:opacity-30">
+                  <ChevronUp size={14} />
+                </button>
+                <button onClick={() => move(idx, 1)} disabled={idx === todo.length - 1} className="text-slate-400 hover:text-indigo-500 disabled:opacity-30">
+                  <ChevronDown size={14} />
+                </button>
+              </div>
+              <select
+                value={item.action}
+                onChange={(e) => changeAction(idx, e.target.value as RebaseAction)}
+                className={`w-24 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded px-2 py-1 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${ACTION_STYLES[item.action]}`}
+              >
+                {ACTIONS.map(a => <option key={a.action} value={a.action}>{a.action}</option>)}
+              </select>
+              <span className="font-mono text-xs text-slate-500 dark:text-slate-400">{item.commitId.substring(0, 7)}</span>
+              {item.action === 'reword' ? (
+                <input
+                  type="text"
+                  value={item.message}
+                  onChange={(e) => update(idx, { message: e.target.value })}
+                  className="flex-1 min-w-0 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded px-2 py-1 font-mono text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              ) : (
+                <span className={`flex-1 min-w-0 truncate font-mono text-sm ${item.action === 'drop' ? 'line-through text-slate-400 dark:text-slate-600' : 'text-slate-700 dark:text-slate-300'}`}>
+                  {item.message.split('\n')[0]}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 dark:border-slate-800 flex flex-wrap items-center justify-between gap-4">
+          <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs text-slate-500 dark:text-slate-400">
+            {ACTIONS.map(a => (
+              <div key={a.action}><span className={`font-mono font-bold ${ACTION_STYLES[a.action]}`}>{a.action}</span> {a.desc}</div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={onAbort}
+              className="px-4 py-2 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+            >
+              Abort
+            </button>
+            <button
+              onClick={() => onSubmit(todo)}
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-indigo-600 hover:bg-indigo-500 text-white flex items-center gap-2 transition-colors"
+            >
+              <Play size={14} /> Start Rebase
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
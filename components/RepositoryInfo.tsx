@@ -1,5 +1,6 @@
 import React from 'react';
 import { GitState } from '../types';
+import { getTrackingStatus } from '../utils/gitLogic';
 import { GitBranch, GitCommit, Cloud, HardDrive, Wifi } from 'lucide-react';
 
 interface RepositoryInfoProps {
@@ -11,8 +12,9 @@ export const RepositoryInfo: React.FC<RepositoryInfoProps> = ({ gitState, repoNa
   const headRef = gitState.head.type === 'branch' ? gitState.head.ref : gitState.head.ref.substring(0, 7);
   const isDetached = gitState.head.type === 'commit';
   const commitCount = gitState.commits.length;
-  const branchCount = gitState.branches.filter(b => !b.name.startsWith('origin/')).length;
-  const hasRemote = gitState.branches.some(b => b.name.startsWith('origin/'));
+  const branchCount = gitState.branches.length;
+  const hasRemote = Object.keys(gitState.remotes).length > 0;
+  const tracking = isDetached ? null : getTrackingStatus(gitState, gitState.head.ref);
 
   return (
     <div className="p-3 px-4 flex items-center justify-between text-xs font-bold text-slate-500 dark:text-slate-400 select-none bg-gradient-to-r from-slate-100/50 to-transparent dark:from-slate-900/50 transition-colors">
@@ -27,6 +29,15 @@ export const RepositoryInfo: React.FC<RepositoryInfoProps> = ({ gitState, repoNa
         <div className={`flex items-center gap-2 ${isDetached ? 'text-red-500 dark:text-red-400' : 'text-emerald-600 dark:text-emerald-400'}`}>
            <GitBranch size={14} />
            <span>{isDetached ? `DETACHED: ${headRef}` : headRef}</span>
+           {tracking && (tracking.ahead > 0 || tracking.behind > 0) && (
+             <span
+               className="flex items-center gap-1 font-mono text-sky-600 dark:text-sky-400"
+               title={`${tracking.ahead} to push, ${tracking.behind} to pull (${tracking.upstream})`}
+             >
+               {tracking.ahead > 0 && <span>↑{tracking.ahead}</span>}
+               {tracking.behind > 0 && <span>↓{tracking.behind}</span>}
+             </span>
+           )}
         </div>
       </div>
 
@@ -1,5 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { LogEntry } from '../types';
+import { COMMANDS } from '../utils/gitLogic';
+import { commandCompletions } from '../utils/commands';
 import { Terminal as TerminalIcon, ChevronRight, MoreHorizontal, Command, Cpu } from 'lucide-react';
 
 interface TerminalProps {
@@ -8,12 +10,15 @@ interface TerminalProps {
   commandHistory?: string[];
 }
 
-const GIT_COMMANDS = [
-  'git init', 'git add', 'git commit', 'git status', 'git log', 'git branch',
-  'git checkout', 'git merge', 'git push', 'git pull', 'git fetch', 'git clone',
-  'git remote', 'git tag', 'git reset', 'git revert', 'git cherry-pick',
-  'git rebase', 'git diff', 'git stash', 'git rebase -i', 'git commit --amend'
-];
+const GIT_COMMANDS = commandCompletions(COMMANDS);
+
+// Sets git's `hint:` advice apart from the output around it
+const renderOutput = (text: string) => text.split('\n').map((line, i, lines) => (
+  <React.Fragment key={i}>
+    {line.startsWith('hint:') ? <span className="text-amber-600 dark:text-amber-400/80 italic">{line}</span> : line}
+    {i < lines.length - 1 && '\n'}
+  </React.Fragment>
+));
 
 export const Terminal: React.FC<TerminalProps> = ({ logs, onCommand, commandHistory = [] }) => {
   const [input, setInput] = useState('');
@@ -158,7 +163,7 @@ export const Terminal: React.FC<TerminalProps> = ({ logs, onCommand, commandHist
         </div>
 
         {logs.map((log) => (
-          <div key={log.id} className={`break-words leading-relaxed ${log.type === 'command' ? 'flex items-start gap-2 mt-3 text-slate-900 dark:text-slate-100 font-bold' :
+          <div key={log.id} className={`break-words whitespace-pre-wrap leading-relaxed ${log.type === 'command' ? 'flex items-start gap-2 mt-3 text-slate-900 dark:text-slate-100 font-bold' :
               log.type === 'error' ? 'text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/10 p-2 rounded border-l-2 border-red-500/50 dark:border-red-500/50 my-1' :
                 log.type === 'success' ? 'text-emerald-600 dark:text-emerald-400' :
                   'text-slate-600 dark:text-slate-400'
@@ -168,7 +173,7 @@ export const Terminal: React.FC<TerminalProps> = ({ logs, onCommand, commandHist
                 <ChevronRight size={14} className="mt-[4px] text-pink-600 dark:text-pink-500 shrink-0" />
                 <span>{log.text}</span>
               </>
-            ) : log.text}
+            ) : renderOutput(log.text)}
           </div>
         ))}
 
@@ -1,10 +1,15 @@
+export type FileTree = Record<string, string>;
+
 export interface Commit {
   id: string;
   message: string;
   parentId: string | null;
   secondParentId: string | null;
+  // Parents after the second, which only octopus merges have
+  otherParentIds?: string[];
   timestamp: number;
   author: string;
+  tree: FileTree;
 }
 
 export interface Branch {
@@ -15,16 +20,173 @@ export interface Branch {
 export interface Tag {
   name: string;
   commitId: string;
+  // Only annotated tags (`git tag -a`) carry a tagger, date and message
+  annotation?: TagAnnotation;
+}
+
+export interface TagAnnotation {
+  tagger: string;
+  timestamp: number;
+  message: string;
+}
+
+// Another repository (e.g. on GitHub) with its own history and refs. Commits
+// only move between it and the local repository through push, fetch and clone.
+export interface Remote {
+  url: string;
+  commits: Commit[];
+  branches: Branch[];
+  tags: Tag[];
+  // The branch the remote's HEAD points to (null while the remote is empty)
+  head: string | null;
+}
+
+// The remote branch a local branch pushes to and pulls from
+// (git's `branch.<name>.remote` and `branch.<name>.merge`)
+export interface Upstream {
+  remote: string;
+  branch: string;
+}
+
+export interface MergeConflict {
+  path: string;
+  kind: 'both modified' | 'both added' | 'deleted by us' | 'deleted by them';
+}
+
+export interface MergeState {
+  sourceId: string;
+  message: string;
+}
+
+// A cherry-pick or revert stopped by conflicts (CHERRY_PICK_HEAD / REVERT_HEAD)
+export interface PickState {
+  kind: 'cherry-pick' | 'revert';
+  commitId: string;
+  message: string;
+  author: string;
 }
 
+export type RebaseAction = 'pick' | 'reword' | 'edit' | 'squash' | 'fixup' | 'drop';
+
+export interface RebaseTodoItem {
+  action: RebaseAction;
+  commitId: string;
+  message: string;
+}
+
+export interface RebaseState {
+  branch: string | null;
+  ontoId: string;
+  // Commits reachable from here are not replayed
+  upstreamId: string;
+  origHeadId: string;
+  interactive: boolean;
+  // Replays merge commits instead of dropping them (`--rebase-merges`)
+  rebaseMerges: boolean;
+  // Original commit → its replayed copy, for the commits applied so far
+  rewritten: Record<string, string>;
+  todo: RebaseTodoItem[];
+  done: RebaseTodoItem[];
+  editingTodo: boolean;
+  stopped: { item: RebaseTodoItem; reason: 'edit' | 'conflict' } | null;
+}
+
+export interface ReflogEntry {
+  oldId: string | null;
+  newId: string;
+  message: string;
+  timestamp: number;
+}
+
+// The config files git reads, from least to most specific
+export type ConfigScope = 'system' | 'global' | 'local';
+
 export interface GitState {
   commits: Commit[];
   branches: Branch[];
+  // Remote-tracking branches such as `origin/main`
+  remoteBranches: Branch[];
   tags: Tag[];
+  remotes: Record<string, Remote>;
+  // Upstream of each local branch that has one, keyed by branch name
+  upstreams: Record<string, Upstream>;
+  // Settings such as `user.name` and `pull.rebase` in each config file. Only
+  // the local scope belongs to the repository; init and clone keep the rest.
+  config: Record<ConfigScope, Record<string, string>>;
   head: {
     type: 'branch' | 'commit';
     ref: string;
   };
+  workingTree: FileTree;
+  index: FileTree;
+  conflicts: MergeConflict[];
+  merge: MergeState | null;
+  pick: PickState | null;
+  // SQUASH_MSG: what the commit after `git merge --squash` will say
+  squashMessage: string | null;
+  rebase: RebaseState | null;
+  stash: string[];
+  reflogs: Record<string, ReflogEntry[]>;
+  origHead: string | null;
+  // Simulated time in milliseconds. Every command advances it, so replaying
+  // the same commands gives the same timestamps and commit ids.
+  clock: number;
+}
+
+// Why a command failed, for callers that react to particular mistakes
+export type GitErrorCode =
+  | 'usage'                 // missing or malformed arguments
+  | 'syntax'                // a command line the shell cannot parse
+  | 'command-not-found'
+  | 'bad-revision'          // a revision that does not resolve to a commit
+  | 'pathspec'              // paths that match no files
+  | 'invalid-name'          // a branch, tag or config key name git refuses
+  | 'already-exists'
+  | 'not-found'             // a branch, remote, tag, file or stash entry that does not exist
+  | 'nothing-to-commit'
+  | 'unmerged-files'        // unresolved conflicts block the command
+  | 'conflict'              // the command stopped on conflicts for the user to resolve
+  | 'would-overwrite'       // local changes would be lost
+  | 'dirty-worktree'        // the command needs a clean working tree
+  | 'detached-head'         // the command needs a branch checked out
+  | 'no-operation'          // nothing in progress to continue or abort
+  | 'operation-in-progress'
+  | 'not-fully-merged'
+  | 'non-fast-forward'      // a rejected push, `--ff-only` or divergent pull
+  | 'no-upstream'
+  | 'remote';               // an unknown remote or a ref it does not have
+
+export interface GitError {
+  code: GitErrorCode;
+  // What git prints, without the hint lines
+  message: string;
+  // Advice git prints as `hint:` lines, without the prefix
+  hints: string[];
+  exitCode: number;
+}
+
+// Something a command did to the repository. Refs are full names such as
+// `refs/heads/main` or `HEAD`; a null `from` means the ref was created and a
+// null `to` that it was deleted.
+export type GitEvent =
+  | { type: 'commit-created'; commitId: string; parents: string[] }
+  | { type: 'ref-moved'; ref: string; from: string | null; to: string | null }
+  | { type: 'head-detached'; commitId: string }
+  | { type: 'head-attached'; branch: string }
+  // A commit replaced by a rewritten copy (amend, rebase)
+  | { type: 'commit-rewritten'; from: string; to: string }
+  | { type: 'conflict-raised'; paths: string[] }
+  | { type: 'remote-updated'; remote: string; ref: string; from: string | null; to: string | null };
+
+export interface CommandResult {
+  newState: GitState;
+  output: string;
+  success: boolean;
+  // Filled in by executeGitCommand and the rebase entry points. Handlers only
+  // report what comparing the states cannot show, like rewritten commits.
+  events?: GitEvent[];
+  // Set whenever success is false
+  error?: GitError;
 }
 
 export interface LogEntry {
@@ -55,4 +217,23 @@ export interface Lesson {
   hint: string;
   initialState: GitState;
   checkSuccess: (state: GitState) => boolean;
-}
\ No newline at end of file
+  // Advice shown when a command fails in a way this lesson expects
+  mistakes?: Partial<Record<GitErrorCode, string>>;
+}
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+  oldNumber: number | null;
+  newNumber: number | null;
+}
+
+export interface FileDiff {
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  oldHash: string;
+  newHash: string;
+  lines: DiffLine[];
+  additions: number;
+  deletions: number;
+}
@@ -0,0 +1,100 @@
+import { CommandResult, GitState } from '../types';
+import { ParsedArgs } from './shell';
+
+export interface CommandOption {
+    // Every spelling of the option, short ones first
+    flags: string[];
+    description: string;
+    // Placeholder for the option's value in help output, e.g. `<msg>`
+    arg?: string;
+    // Key parseArgs stores the value under when the option takes one. Options
+    // whose value is optional (`--rebase[=<mode>]`) leave it out and only get
+    // a value written as `--option=value`.
+    key?: string;
+}
+
+// An entry in the command reference
+export interface CommandExample {
+    cmd: string;
+    desc: string;
+    // Reference section, when it differs from the command's own
+    category?: CommandCategory;
+}
+
+export type CommandCategory = 'Essentials' | 'Branching' | 'Remote / GitHub' | 'Advanced';
+
+export const COMMAND_CATEGORIES: CommandCategory[] = ['Essentials', 'Branching', 'Remote / GitHub', 'Advanced'];
+
+export interface CommandContext {
+    state: GitState;
+    // The whole command line, starting with `git <name>`
+    parts: string[];
+    opts: ParsedArgs;
+    positional: string[];
+    has: (...flags: string[]) => boolean;
+}
+
+// A git subcommand. Its options drive argument parsing, `git <name> -h`,
+// autocomplete and the command reference.
+export interface GitCommand {
+    name: string;
+    // One line, as in `git help`
+    summary: string;
+    // Synopsis lines without the leading `usage:`
+    usage: string[];
+    options: CommandOption[];
+    category: CommandCategory;
+    examples: CommandExample[];
+    run: (context: CommandContext) => CommandResult;
+}
+
+// The option → key map parseArgs expects
+export const valueOptionsOf = (command: GitCommand | undefined): Record<string, string> =>
+    Object.fromEntries((command?.options ?? []).flatMap(o => (o.key ? o.flags.map(f => [f, o.key!]) : [])));
+
+// The first flag the command does not declare, as git names it in
+// `unknown option 'x'` (long) or `unknown switch 'x'` (short). A command
+// that lists `-<n>` accepts numeric counts such as `-3`.
+export const findUnknownOption = (command: GitCommand, flags: Set<string>): string | null => {
+    const known = new Set(command.options.flatMap(o => o.flags));
+    const unknown = Array.from(flags).find(f => !known.has(f) && !(/^-\d+$/.test(f) && known.has('-<n>')));
+    if (!unknown) return null;
+    return unknown.startsWith('--') ? `unknown option '${unknown.slice(2)}'` : `unknown switch '${unknown.slice(1)}'`;
+};
+
+const formatOption = ({ flags, arg, key, description }: CommandOption): string => {
+    const value = arg ? (key ? ` ${arg}` : `[=${arg}]`) : '';
+    const left = `    ${flags.join(', ')}${value}`;
+    return left.length < 25 ? `${left.padEnd(26)}${description}` : `${left}\n${' '.repeat(26)}${description}`;
+};
+
+// What `git <name> -h` prints
+export const formatCommandHelp = (command: GitCommand): string => {
+    const [first, ...rest] = command.usage;
+    const usage = [`usage: ${first}`, ...rest.map(u => `   or: ${u}`)];
+    return command.options.length > 0 ? [...usage, '', ...command.options.map(formatOption)].join('\n') : usage.join('\n');
+};
+
+// What `git help` prints
+export const formatCommandList = (commands: GitCommand[]): string => [
+    'usage: git <command> [<args>]',
+    '',
+    'These are the git commands available here:',
+    '',
+    ...commands.map(c => `   ${c.name.padEnd(13)}${c.summary}`),
+    '',
+    "See 'git help <command>' or 'git <command> -h' to read about a specific command."
+].join('\n');
+
+// Autocomplete entries: each command on its own, then with each long option
+export const commandCompletions = (commands: GitCommand[]): string[] => [
+    ...commands.map(c => `git ${c.name}`),
+    ...commands.flatMap(c => c.options.flatMap(o => o.flags.filter(f => f.startsWith('--')).map(f => `git ${c.name} ${f}`)))
+];
+
+// The command reference, one section per category in reference order
+export const commandReference = (commands: GitCommand[]): { title: CommandCategory; cmds: CommandExample[] }[] =>
+    COMMAND_CATEGORIES.map(title => ({
+        title,
+        cmds: commands.flatMap(c => c.examples.filter(e => (e.category ?? c.category) === title))
+    })).filter(section => section.cmds.length > 0);
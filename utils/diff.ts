@@ -0,0 +1,167 @@
+import { FileTree, DiffLine, FileDiff } from '../types';
+import { changedPaths } from './fileSystem';
+import { hashText } from './hash';
+
+const CONTEXT_LINES = 3;
+
+export const splitLines = (content: string | undefined): string[] => {
+    if (!content) return [];
+    const lines = content.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+};
+
+// Short, stable stand-in for a blob id so `index` lines look like git's.
+export const hashContent = (content: string | undefined): string => {
+    if (content === undefined) return '0000000';
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < content.length; i++) {
+        hash ^= content.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash.toString(16).padStart(8, '0').substring(0, 7);
+};
+
+// Line diff based on the longest common subsequence of the two files.
+export const diffLines = (oldLines: string[], newLines: string[]): DiffLine[] => {
+    const n = oldLines.length;
+    const m = newLines.length;
+    const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i][j] = oldLines[i] === newLines[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && oldLines[i] === newLines[j]) {
+            result.push({ type: 'context', text: oldLines[i], oldNumber: i + 1, newNumber: j + 1 });
+            i++;
+            j++;
+        } else if (j < m && (i === n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+            result.push({ type: 'add', text: newLines[j], oldNumber: null, newNumber: j + 1 });
+            j++;
+        } else {
+            result.push({ type: 'remove', text: oldLines[i], oldNumber: i + 1, newNumber: null });
+            i++;
+        }
+    }
+    return result;
+};
+
+export const diffFile = (path: string, oldContent: string | undefined, newContent: string | undefined): FileDiff => {
+    const lines = diffLines(splitLines(oldContent), splitLines(newContent));
+    return {
+        path,
+        status: oldContent === undefined ? 'added' : newContent === undefined ? 'deleted' : 'modified',
+        oldHash: hashContent(oldContent),
+        newHash: hashContent(newContent),
+        lines,
+        additions: lines.filter(l => l.type === 'add').length,
+        deletions: lines.filter(l => l.type === 'remove').length
+    };
+};
+
+export const diffTrees = (oldTree: FileTree, newTree: FileTree, paths?: string[]): FileDiff[] =>
+    (paths ?? changedPaths(oldTree, newTree))
+        .filter(p => oldTree[p] !== newTree[p])
+        .map(p => diffFile(p, oldTree[p], newTree[p]));
+
+// What `git patch-id` computes: a hash of the changed lines of each file that
+// ignores whitespace and where in the file the changes are, so the same change
+// made on top of different history gets the same id.
+export const patchId = (diffs: FileDiff[]): string => hashText(diffs.map(d => [
+    d.path,
+    ...d.lines.filter(l => l.type !== 'context').map(l => `${l.type === 'add' ? '+' : '-'}${l.text.replace(/\s+/g, '')}`)
+].join('\n')).join('\n'));
+
+const formatRange = (start: number, count: number) => `${count === 0 ? start - 1 : start}${count === 1 ? '' : `,${count}`}`;
+
+const formatHunks = (lines: DiffLine[]): string[] => {
+    const changes = lines.map((l, idx) => (l.type === 'context' ? -1 : idx)).filter(idx => idx !== -1);
+    const output: string[] = [];
+    let cursor = 0;
+
+    while (cursor < changes.length) {
+        const start = Math.max(0, changes[cursor] - CONTEXT_LINES);
+        let end = Math.min(lines.length, changes[cursor] + CONTEXT_LINES + 1);
+        cursor++;
+        while (cursor < changes.length && changes[cursor] - CONTEXT_LINES <= end) {
+            end = Math.min(lines.length, changes[cursor] + CONTEXT_LINES + 1);
+            cursor++;
+        }
+
+        const hunk = lines.slice(start, end);
+        const before = lines.slice(0, start);
+        const oldStart = before.filter(l => l.type !== 'add').length + 1;
+        const newStart = before.filter(l => l.type !== 'remove').length + 1;
+        const oldCount = hunk.filter(l => l.type !== 'add').length;
+        const newCount = hunk.filter(l => l.type !== 'remove').length;
+
+        output.push(`@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`);
+        hunk.forEach(l => output.push(`${l.type === 'add' ? '+' : l.type === 'remove' ? '-' : ' '}${l.text}`));
+    }
+    return output;
+};
+
+export const formatUnifiedDiff = (diffs: FileDiff[]): string =>
+    diffs.map(d => {
+        const header = [`diff --git a/${d.path} b/${d.path}`];
+        if (d.status === 'added') header.push('new file mode 100644', `index 0000000..${d.newHash}`);
+        else if (d.status === 'deleted') header.push('deleted file mode 100644', `index ${d.oldHash}..0000000`);
+        else header.push(`index ${d.oldHash}..${d.newHash} 100644`);
+        if (d.lines.length > 0) {
+            header.push(d.status === 'added' ? '--- /dev/null' : `--- a/${d.path}`);
+            header.push(d.status === 'deleted' ? '+++ /dev/null' : `+++ b/${d.path}`);
+        }
+        return [...header, ...formatHunks(d.lines)].join('\n');
+    }).join('\n');
+
+export const formatDiffStat = (diffs: FileDiff[]): string => {
+    if (diffs.length === 0) return '';
+    const width = Math.max(...diffs.map(d => d.path.length));
+    const rows = diffs.map(d => {
+        const total = d.additions + d.deletions;
+        return ` ${d.path.padEnd(width)} | ${String(total).padStart(2)} ${'+'.repeat(d.additions)}${'-'.repeat(d.deletions)}`;
+    });
+    const additions = diffs.reduce((sum, d) => sum + d.additions, 0);
+    const deletions = diffs.reduce((sum, d) => sum + d.deletions, 0);
+    const summary = [
+        `${diffs.length} file${diffs.length === 1 ? '' : 's'} changed`,
+        additions > 0 && `${additions} insertion${additions === 1 ? '' : 's'}(+)`,
+        deletions > 0 && `${deletions} deletion${deletions === 1 ? '' : 's'}(-)`
+    ].filter(Boolean).join(', ');
+    return [...rows, ` ${summary}`].join('\n');
+};
+
+export interface SideBySideRow {
+    left: DiffLine | null;
+    right: DiffLine | null;
+}
+
+// Pairs removed lines with the added lines that replace them so a viewer can
+// render the old and new file next to each other.
+export const toSideBySide = (lines: DiffLine[]): SideBySideRow[] => {
+    const rows: SideBySideRow[] = [];
+    let idx = 0;
+    while (idx < lines.length) {
+        if (lines[idx].type === 'context') {
+            rows.push({ left: lines[idx], right: lines[idx] });
+            idx++;
+            continue;
+        }
+        const removed: DiffLine[] = [];
+        const added: DiffLine[] = [];
+        while (idx < lines.length && lines[idx].type !== 'context') {
+            (lines[idx].type === 'remove' ? removed : added).push(lines[idx]);
+            idx++;
+        }
+        for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+            rows.push({ left: removed[k] ?? null, right: added[k] ?? null });
+        }
+    }
+    return rows;
+};
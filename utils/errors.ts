@@ -0,0 +1,40 @@
+import { CommandResult, GitError, GitErrorCode, GitState } from '../types';
+
+const HINT = /^hint:(?: (.*))?$/;
+
+// git dies with 128 and exits with 129 on usage errors; any other error is 1
+const exitStatusOf = (code: GitErrorCode, message: string): number => {
+    if (code === 'syntax') return 2;
+    if (code === 'command-not-found') return 127;
+    if (message.startsWith('usage:')) return 129;
+    return message.split('\n').some(l => l.startsWith('fatal:')) ? 128 : 1;
+};
+
+// Builds an error from the text git prints, taking its `hint:` lines apart
+// from the message.
+export const gitError = (code: GitErrorCode, text: string, exitCode?: number): GitError => {
+    const lines = text.split('\n');
+    const message = lines.filter(l => !HINT.test(l)).join('\n');
+    return {
+        code,
+        message,
+        hints: lines.flatMap(l => { const m = l.match(HINT); return m ? [m[1] ?? ''] : []; }),
+        exitCode: exitCode ?? exitStatusOf(code, message)
+    };
+};
+
+// Prints an error the way git does: advice follows the error it explains,
+// unless git dies straight away, in which case it comes before the `fatal:`.
+export const formatError = ({ message, hints }: GitError): string => {
+    const advice = hints.map(h => (h ? `hint: ${h}` : 'hint:'));
+    const [first, ...rest] = message.split('\n');
+    return (first.startsWith('fatal:') ? [...advice, first, ...rest] : [first, ...advice, ...rest]).join('\n');
+};
+
+// A failed command. `output` is whatever it printed before giving up.
+export const fail = (state: GitState, error: GitError, output = ''): CommandResult => ({
+    newState: state,
+    output: [output, formatError(error)].filter(Boolean).join('\n'),
+    success: false,
+    error
+});
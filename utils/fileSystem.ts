@@ -0,0 +1,142 @@
+import { GitState, FileTree, CommandResult } from '../types';
+import { Redirect } from './shell';
+import { fail, gitError } from './errors';
+
+export const SHELL_COMMANDS = ['touch', 'echo', 'cat', 'ls', 'rm'];
+
+export const listPaths = (tree: FileTree): string[] => Object.keys(tree).sort();
+
+export const changedPaths = (from: FileTree, to: FileTree): string[] => {
+    const paths = new Set([...Object.keys(from), ...Object.keys(to)]);
+    return Array.from(paths).filter(p => from[p] !== to[p]).sort();
+};
+
+export const treesEqual = (a: FileTree, b: FileTree): boolean => changedPaths(a, b).length === 0;
+
+// Copies the listed paths from `source` into `target`, deleting paths that
+// `source` does not have.
+export const copyPaths = (target: FileTree, source: FileTree, paths: string[]): FileTree => {
+    const result = { ...target };
+    paths.forEach(p => {
+        if (source[p] === undefined) delete result[p];
+        else result[p] = source[p];
+    });
+    return result;
+};
+
+// Replays the file-level change between `from` and `to` on top of `tree`.
+export const applyTreeChange = (tree: FileTree, from: FileTree, to: FileTree): FileTree =>
+    copyPaths(tree, to, changedPaths(from, to));
+
+// Moves the index and working tree from `fromTree` to `toTree`, carrying local
+// edits along like `git checkout` does. Returns the paths that would be
+// overwritten instead when a local edit touches a file that differs between
+// the two trees.
+export const switchTrees = (
+    state: Pick<GitState, 'workingTree' | 'index'>,
+    fromTree: FileTree,
+    toTree: FileTree
+): { workingTree: FileTree; index: FileTree; conflicts: string[] } => {
+    const conflicts = changedPaths(fromTree, toTree)
+        .filter(p => state.workingTree[p] !== fromTree[p] || state.index[p] !== fromTree[p]);
+    if (conflicts.length > 0) return { workingTree: state.workingTree, index: state.index, conflicts };
+    return {
+        workingTree: applyTreeChange(state.workingTree, fromTree, toTree),
+        index: applyTreeChange(state.index, fromTree, toTree),
+        conflicts: []
+    };
+};
+
+export const globToRegExp = (glob: string): RegExp =>
+    new RegExp(`^${glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+
+export const matchesPathspec = (path: string, spec: string): boolean => {
+    const clean = spec.replace(/^\.\//, '').replace(/\/$/, '');
+    if (clean === '.' || clean === '') return true;
+    if (path === clean || path.startsWith(`${clean}/`)) return true;
+    if (/[*?]/.test(clean)) return globToRegExp(clean).test(path) || globToRegExp(clean).test(path.split('/').pop()!);
+    return false;
+};
+
+export const expandPathspecs = (specs: string[], ...trees: FileTree[]): { paths: string[]; unmatched: string | null } => {
+    const candidates = Array.from(new Set(trees.flatMap(t => Object.keys(t)))).sort();
+    const paths = new Set<string>();
+    for (const spec of specs) {
+        const matched = candidates.filter(p => matchesPathspec(p, spec));
+        if (matched.length === 0) return { paths: [], unmatched: spec };
+        matched.forEach(p => paths.add(p));
+    }
+    return { paths: Array.from(paths).sort(), unmatched: null };
+};
+
+export const overwriteError = (paths: string[], action: string): string =>
+    `error: Your local changes to the following files would be overwritten by ${action}:\n${paths.map(p => `\t${p}`).join('\n')}\nPlease commit your changes or stash them before you ${action}.\nAborting`;
+
+// Writes a command's output into the working tree for `>` and `>>`.
+export const applyRedirect = (state: GitState, redirect: Redirect, output: string): GitState => {
+    const text = `${output}\n`;
+    const previous = redirect.append ? state.workingTree[redirect.path] ?? '' : '';
+    return { ...state, workingTree: { ...state.workingTree, [redirect.path]: previous + text } };
+};
+
+export const executeShellCommand = (argv: string[], state: GitState): CommandResult => {
+    const [cmd, ...args] = argv;
+    const files = state.workingTree;
+
+    if (cmd === 'touch') {
+        if (args.length === 0) return fail(state, gitError('usage', 'touch: missing file operand'));
+        const workingTree = { ...files };
+        args.forEach(p => { if (workingTree[p] === undefined) workingTree[p] = ''; });
+        return { newState: { ...state, workingTree }, output: '', success: true };
+    }
+
+    if (cmd === 'echo') {
+        return { newState: state, output: args.join(' '), success: true };
+    }
+
+    if (cmd === 'cat') {
+        if (args.length === 0) return fail(state, gitError('usage', 'cat: missing file operand'));
+        const missing = args.find(p => files[p] === undefined);
+        if (missing) return fail(state, gitError('not-found', `cat: ${missing}: No such file or directory`));
+        return { newState: state, output: args.map(p => files[p]).join('').replace(/\n$/, ''), success: true };
+    }
+
+    if (cmd === 'ls') {
+        const dir = args.find(a => !a.startsWith('-'))?.replace(/\/$/, '');
+        const paths = listPaths(files).filter(p => !dir || p.startsWith(`${dir}/`));
+        if (dir && paths.length === 0) {
+            if (files[dir] !== undefined) return { newState: state, output: dir, success: true };
+            return fail(state, gitError('not-found', `ls: cannot access '${dir}': No such file or directory`));
+        }
+        const entries = new Set(paths.map(p => {
+            const rest = dir ? p.slice(dir.length + 1) : p;
+            const slash = rest.indexOf('/');
+            return slash === -1 ? rest : `${rest.slice(0, slash)}/`;
+        }));
+        return { newState: state, output: Array.from(entries).join('  '), success: true };
+    }
+
+    if (cmd === 'rm') {
+        const force = args.some(a => a.startsWith('-') && a.includes('f'));
+        const recursive = args.some(a => a.startsWith('-') && a.includes('r'));
+        const targets = args.filter(a => !a.startsWith('-'));
+        if (targets.length === 0) return fail(state, gitError('usage', 'rm: missing operand'));
+
+        const workingTree = { ...files };
+        for (const target of targets) {
+            const dir = target.replace(/\/$/, '');
+            const nested = Object.keys(workingTree).filter(p => p.startsWith(`${dir}/`));
+            if (workingTree[target] !== undefined) {
+                delete workingTree[target];
+            } else if (nested.length > 0) {
+                if (!recursive) return fail(state, gitError('usage', `rm: cannot remove '${target}': Is a directory`));
+                nested.forEach(p => delete workingTree[p]);
+            } else if (!force) {
+                return fail(state, gitError('not-found', `rm: cannot remove '${target}': No such file or directory`));
+            }
+        }
+        return { newState: { ...state, workingTree }, output: '', success: true };
+    }
+
+    return fail(state, gitError('command-not-found', `${cmd}: command not found`));
+};
@@ -1,58 +1,363 @@
-import { GitState, Commit, Branch, Lesson, Tag } from '../types';
-import { v4 as uuidv4 } from 'uuid';
+import { GitState, GitEvent, GitError, GitErrorCode, ConfigScope, Commit, Branch, Lesson, Tag, FileTree, CommandResult, MergeConflict, PickState, RebaseState, RebaseTodoItem, ReflogEntry, Remote, Upstream } from '../types';
+import { SHELL_COMMANDS, executeShellCommand, applyRedirect, applyTreeChange, switchTrees, overwriteError, expandPathspecs, copyPaths, changedPaths, treesEqual, matchesPathspec, globToRegExp } from './fileSystem';
+import { diffTrees, formatUnifiedDiff, formatDiffStat, patchId } from './diff';
+import { mergeTrees, formatConflictReport } from './merge';
+import { parseCommandLine, parseArgs, tokenize, SimpleCommand } from './shell';
+import { renderGraph } from './graph';
+import { hashCommit } from './hash';
+import { fail, gitError, formatError } from './errors';
+import { GitCommand, CommandContext, CommandOption, valueOptionsOf, findUnknownOption, formatCommandHelp, formatCommandList } from './commands';
+
+const README: FileTree = { 'README.md': '# Project\n' };
+
+// Where the simulated clock of every session starts, so the same commands
+// always produce the same timestamps and therefore the same commit ids.
+const SESSION_START = Date.UTC(2024, 0, 15, 9, 0, 0);
+
+// Simulated time each command the user runs takes
+const COMMAND_DURATION = 60 * 1000;
+
+// Every parent of a commit, first parent first
+export const getParentIds = (commit: Omit<Commit, 'id'>): string[] =>
+    [commit.parentId, commit.secondParentId, ...(commit.otherParentIds ?? [])].filter((p): p is string => !!p);
+
+// Commits are named after their content like git objects are: the same
+// parents, files, author, message and time always give the same id.
+const createCommit = (commit: Omit<Commit, 'id'>): Commit => ({
+    ...commit,
+    id: hashCommit({
+        tree: commit.tree,
+        parents: getParentIds(commit),
+        author: commit.author,
+        timestamp: commit.timestamp,
+        message: commit.message
+    }).substring(0, 7)
+});
+
+const INITIAL_COMMIT = createCommit({
+    message: 'Initial commit',
+    parentId: null,
+    secondParentId: null,
+    timestamp: SESSION_START,
+    author: 'User',
+    tree: README,
+});
 
 export const INITIAL_STATE: GitState = {
-    commits: [
-        {
-            id: 'init',
-            message: 'Initial commit',
-            parentId: null,
-            secondParentId: null,
-            timestamp: Date.now(),
-            author: 'User',
-        },
-    ],
-    branches: [{ name: 'main', commitId: 'init' }],
+    commits: [INITIAL_COMMIT],
+    branches: [{ name: 'main', commitId: INITIAL_COMMIT.id }],
+    remoteBranches: [],
     tags: [],
+    remotes: {},
+    upstreams: {},
+    config: { system: {}, global: {}, local: {} },
     head: { type: 'branch', ref: 'main' },
+    workingTree: README,
+    index: README,
+    conflicts: [],
+    merge: null,
+    pick: null,
+    squashMessage: null,
+    rebase: null,
+    stash: [],
+    reflogs: {
+        HEAD: [{ oldId: null, newId: INITIAL_COMMIT.id, message: 'commit (initial): Initial commit', timestamp: SESSION_START }],
+        main: [{ oldId: null, newId: INITIAL_COMMIT.id, message: 'commit (initial): Initial commit', timestamp: SESSION_START }],
+    },
+    origHead: null,
+    clock: SESSION_START,
 };
 
-const generateShortId = () => uuidv4().substring(0, 7);
-
-export const getHeadCommitId = (state: GitState): string => {
+// The commit HEAD points at, or null on an unborn branch that has no commits yet
+export const getHeadCommitId = (state: GitState): string | null => {
     if (state.head.type === 'commit') {
         return state.head.ref;
     }
     const branch = state.branches.find((b) => b.name === state.head.ref);
-    return branch ? branch.commitId : 'init';
+    return branch ? branch.commitId : null;
+};
+
+// Points HEAD at `commitId`, through the checked-out branch when there is one;
+// an unborn branch is created by its first commit
+const moveHead = (state: GitState, commitId: string): Pick<GitState, 'head' | 'branches'> => {
+    if (state.head.type === 'commit') return { head: { type: 'commit', ref: commitId }, branches: state.branches };
+    const name = state.head.ref;
+    return state.branches.some(b => b.name === name)
+        ? { head: state.head, branches: state.branches.map(b => (b.name === name ? { ...b, commitId } : b)) }
+        : { head: state.head, branches: [...state.branches, { name, commitId }] };
+};
+
+export const getCommitTree = (state: GitState, commitId: string | null): FileTree => {
+    const commit = state.commits.find(c => c.id === commitId);
+    return commit ? commit.tree : {};
+};
+
+type SeedCommit = Omit<Commit, 'tree'> & { tree?: FileTree };
+
+type SeedRemote = Pick<Remote, 'branches'> & { url?: string; tags?: Tag[]; commits?: SeedCommit[] };
+
+const DEFAULT_REMOTE_URL = 'https://github.com/demo/repo.git';
+
+// Lesson fixtures only spell out the graph; commits without an explicit tree
+// inherit their parent's files (a README for root commits) and the index and
+// working tree start clean at HEAD unless a dirty working tree is given.
+// Each ref starts with a single reflog entry unless a history is supplied.
+// A remote gets every commit its refs reach, including its own extra commits
+// that the local repository has not fetched yet; the remote-tracking branches
+// mirror the remote's branches unless given explicitly, and local branches
+// track their `origin/<name>` counterpart by default.
+const seedState = (seed: Pick<GitState, 'branches' | 'tags' | 'head'> & {
+    commits: SeedCommit[];
+    workingTree?: FileTree;
+    reflogs?: GitState['reflogs'];
+    remotes?: Record<string, SeedRemote>;
+    remoteBranches?: Branch[];
+    upstreams?: GitState['upstreams'];
+    config?: GitState['config'];
+    clock?: number;
+}): GitState => {
+    const trees = new Map<string, FileTree>();
+    const withTree = (c: SeedCommit): Commit => {
+        const tree = c.tree ?? (c.parentId ? trees.get(c.parentId) : undefined) ?? README;
+        trees.set(c.id, tree);
+        return { ...c, tree };
+    };
+    const commits = seed.commits.map(withTree);
+    const remoteSeeds = Object.entries(seed.remotes ?? {});
+    const remoteOnly = remoteSeeds.flatMap(([, remote]) => (remote.commits ?? []).map(withTree));
+    const remotes = remoteSeeds.reduce<Record<string, Remote>>((all, [name, remote]) => {
+        const tags = remote.tags ?? [];
+        const reachable = collectReachable([...commits, ...remoteOnly], [...remote.branches, ...tags].map(r => r.commitId));
+        return {
+            ...all,
+            [name]: {
+                url: remote.url ?? DEFAULT_REMOTE_URL,
+                commits: [...commits, ...remoteOnly].filter(c => reachable.has(c.id)),
+                branches: remote.branches,
+                tags,
+                head: remote.branches.some(b => b.name === 'main') ? 'main' : remote.branches[0]?.name ?? null
+            }
+        };
+    }, {});
+    const remoteBranches = seed.remoteBranches
+        ?? remoteSeeds.flatMap(([name, remote]) => remote.branches.map(b => ({ name: `${name}/${b.name}`, commitId: b.commitId })));
+
+    const upstreams = seed.upstreams ?? seed.branches
+        .filter(b => remoteBranches.some(r => r.name === `origin/${b.name}`))
+        .reduce<GitState['upstreams']>((all, b) => ({ ...all, [b.name]: { remote: 'origin', branch: b.name } }), {});
+
+    const state: GitState = {
+        branches: seed.branches,
+        remoteBranches,
+        tags: seed.tags,
+        remotes,
+        upstreams,
+        config: seed.config ?? EMPTY_CONFIG,
+        head: seed.head,
+        commits,
+        workingTree: {},
+        index: {},
+        conflicts: [],
+        merge: null,
+        pick: null,
+        squashMessage: null,
+        rebase: null,
+        stash: [],
+        reflogs: {},
+        origHead: null,
+        clock: seed.clock ?? SESSION_START
+    };
+    const headId = getHeadCommitId(state);
+    const headTree = getCommitTree(state, headId);
+    const created = (newId: string, message: string): ReflogEntry[] => [{ oldId: null, newId, message, timestamp: state.clock }];
+    const reflogs = seed.reflogs ?? seed.branches.reduce<GitState['reflogs']>(
+        (logs, b) => ({ ...logs, [b.name]: created(b.commitId, 'branch: Created from HEAD') }),
+        headId ? { HEAD: created(headId, `checkout: moving to ${seed.head.ref}`) } : {}
+    );
+    return { ...state, workingTree: seed.workingTree ?? headTree, index: headTree, reflogs };
+};
+
+
+// The remote-tracking branch a local branch is configured to follow, e.g.
+// `origin/main`, whether or not that ref still exists.
+const getUpstreamName = (state: GitState, branch: string): string | null => {
+    const upstream = state.upstreams[branch];
+    return upstream ? `${upstream.remote}/${upstream.branch}` : null;
 };
 
+// Splits a remote-tracking branch name like `origin/feature/x` into its
+// remote and branch; null for anything that is not a remote-tracking branch.
+const parseRemoteBranch = (state: GitState, name: string): Upstream | null => {
+    if (!state.remoteBranches.some(b => b.name === name)) return null;
+    const remote = Object.keys(state.remotes).find(r => name.startsWith(`${r}/`));
+    return remote ? { remote, branch: name.slice(remote.length + 1) } : null;
+};
 
-const resolveRef = (state: GitState, ref: string): string | null => {
-    if (!ref) return null;
+// The n-th branch checked out before the current one, read from the HEAD
+// reflog (`@{-1}`, or `-` for checkout).
+const previousBranch = (state: GitState, n: number): string | null => {
+    const moves = (state.reflogs.HEAD ?? [])
+        .map(e => e.message.match(/^checkout: moving from (\S+) to /)?.[1])
+        .filter((from): from is string => !!from);
+    return moves[n - 1] ?? null;
+};
 
-    const branch = state.branches.find(b => b.name === ref);
-    if (branch) return branch.commitId;
+interface RevisionResult {
+    id: string | null;
+    error: string | null;
+}
+
+const NOT_FOUND: RevisionResult = { id: null, error: null };
+
+// A revision name without `~`/`^` suffixes: HEAD and ORIG_HEAD, reflog and
+// upstream selectors, branches, tags, stash entries and full or unique
+// abbreviated commit ids.
+const resolveRevisionName = (state: GitState, name: string): RevisionResult => {
+    const found = (id: string | null | undefined): RevisionResult => (id ? { id, error: null } : NOT_FOUND);
+    const current = state.head.type === 'branch' ? state.head.ref : null;
+
+    if (name === '@' || name === 'HEAD') return found(getHeadCommitId(state));
+    if (name === 'ORIG_HEAD') return found(state.origHead);
+
+    const selector = name.match(/^(.*)@\{(.+)\}$/);
+    if (selector) {
+        const [, refName, key] = selector;
+        if (key === 'u' || key === 'upstream') {
+            const branch = refName || current;
+            if (!branch) return { id: null, error: 'fatal: HEAD does not point to a branch' };
+            if (!state.branches.some(b => b.name === branch)) return { id: null, error: `fatal: no such branch: '${branch}'` };
+            const upstream = getUpstreamName(state, branch);
+            if (!upstream) return { id: null, error: `fatal: no upstream configured for branch '${branch}'` };
+            return found(state.remoteBranches.find(b => b.name === upstream)?.commitId);
+        }
+        if (/^-\d+$/.test(key) && !refName) {
+            const branch = previousBranch(state, parseInt(key.slice(1), 10));
+            return branch ? resolveRevisionName(state, branch) : NOT_FOUND;
+        }
+        if (/^\d+$/.test(key)) {
+            const n = parseInt(key, 10);
+            if (refName === 'stash') return found(state.stash[n]);
+            const ref = refName || current || 'HEAD';
+            const entries = state.reflogs[ref];
+            if (!entries) return NOT_FOUND;
+            if (n >= entries.length) {
+                return { id: null, error: `fatal: log for '${ref}' only has ${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}` };
+            }
+            return found(entries[n].newId);
+        }
+        return NOT_FOUND;
+    }
 
+    const branch = state.branches.find(b => b.name === name);
+    if (branch) return found(branch.commitId);
 
-    const tag = state.tags.find(t => t.name === ref);
-    if (tag) return tag.commitId;
+    const tag = state.tags.find(t => t.name === name);
+    if (tag) return found(tag.commitId);
 
+    const remoteBranch = state.remoteBranches.find(b => b.name === name);
+    if (remoteBranch) return found(remoteBranch.commitId);
 
-    const commit = state.commits.find(c => c.id === ref || c.id.startsWith(ref));
-    if (commit) return commit.id;
+    // A remote's name on its own means its HEAD, e.g. `origin` for `origin/main`
+    const remoteHead = state.remotes[name]?.head;
+    if (remoteHead) return found(state.remoteBranches.find(b => b.name === `${name}/${remoteHead}`)?.commitId);
 
+    if (name === 'stash') return found(state.stash[0]);
 
-    if (ref === 'HEAD') return getHeadCommitId(state);
+    const exact = state.commits.find(c => c.id === name);
+    if (exact) return found(exact.id);
 
-    return null;
+    // Like git, abbreviated ids need at least four characters and must be unique
+    const matches = name.length >= 4 ? state.commits.filter(c => c.id.startsWith(name)) : [];
+    if (matches.length > 1) {
+        const candidates = matches.map(c => `hint:   ${c.id.substring(0, 7)} commit - ${subjectOf(c.message)}`).join('\n');
+        return {
+            id: null,
+            error: `error: short object ID ${name} is ambiguous\nhint: The candidates are:\n${candidates}\nfatal: ambiguous argument '${name}': unknown revision or path not in the working tree.`
+        };
+    }
+    return found(matches[0]?.id);
+};
+
+// Full revision syntax shared by every command: a name followed by any chain
+// of `~n` (n-th first-parent ancestor) and `^n` (n-th parent) suffixes, e.g.
+// `HEAD^2` or `main~3^`.
+const resolveRevision = (state: GitState, spec: string): RevisionResult => {
+    const [, name, suffixes] = spec.match(/^(.*?)((?:[~^]\d*)*)$/)!;
+    const base = resolveRevisionName(state, name);
+    let id = base.id;
+
+    for (const step of suffixes.match(/[~^]\d*/g) ?? []) {
+        if (!id) break;
+        const count = step.length > 1 ? parseInt(step.slice(1), 10) : 1;
+        if (step[0] === '~') {
+            for (let i = 0; i < count && id; i++) id = state.commits.find(c => c.id === id)?.parentId ?? null;
+        } else if (count > 0) {
+            const commit = state.commits.find(c => c.id === id);
+            id = (commit ? getParentIds(commit) : [])[count - 1] ?? null;
+        }
+    }
+    return id ? { id, error: null } : { id: null, error: base.error };
+};
+
+const resolveRef = (state: GitState, ref: string | undefined): string | null =>
+    ref ? resolveRevision(state, ref).id : null;
+
+// The parser's own diagnostic (an ambiguous id, a missing upstream, a short
+// reflog) when it has one, otherwise the command's usual message.
+const revisionError = (state: GitState, spec: string | undefined, fallback: string): string =>
+    (spec && resolveRevision(state, spec).error) || fallback;
+
+// Expands log-style arguments (`A`, `^A`, `A..B`, `A...B`) into the commits
+// they select: everything reachable from the included revisions minus
+// everything reachable from the excluded ones.
+const resolveCommitRange = (state: GitState, args: string[], firstParent = false): { ids: Set<string>; error: string | null } => {
+    const include: string[] = [];
+    const exclude: string[] = [];
+    const resolveAll = (specs: string[]): string[] | string => {
+        const ids: string[] = [];
+        for (const spec of specs) {
+            const id = resolveRef(state, spec);
+            if (!id) return revisionError(state, spec, `fatal: ambiguous argument '${spec}': unknown revision or path not in the working tree.`);
+            ids.push(id);
+        }
+        return ids;
+    };
+
+    for (const arg of args.length > 0 ? args : ['HEAD']) {
+        const range = arg.match(/^(.*?)(\.\.\.?)(.*)$/);
+        const specs = range ? [range[1] || 'HEAD', range[3] || 'HEAD'] : [arg.replace(/^\^/, '')];
+        const ids = resolveAll(specs);
+        if (typeof ids === 'string') return { ids: new Set(), error: ids };
+
+        if (!range) (arg.startsWith('^') ? exclude : include).push(ids[0]);
+        else if (range[2] === '..') {
+            exclude.push(ids[0]);
+            include.push(ids[1]);
+        } else {
+            include.push(...ids);
+            const base = findMergeBase(state, ids[0], ids[1]);
+            if (base) exclude.push(base);
+        }
+    }
+
+    const excluded = new Set(exclude.flatMap(id => Array.from(getReachable(state, id))));
+    // --first-parent only follows the first parent of each merge
+    const walk = (id: string) => (firstParent ? getFirstParentChain(state, id) : Array.from(getReachable(state, id)));
+    const ids = new Set(include.flatMap(walk).filter(id => !excluded.has(id)));
+    return { ids, error: null };
+};
+
+const parseStashRef = (ref: string): number | null => {
+    if (ref === 'stash') return 0;
+    const match = ref.match(/^(?:stash@\{(\d+)\}|(\d+))$/);
+    return match ? parseInt(match[1] ?? match[2], 10) : null;
 };
 
 const getNextTimestamp = (state: GitState) => {
     const lastTime = state.commits.length > 0
         ? Math.max(...state.commits.map(c => c.timestamp))
         : 0;
-    return Math.max(Date.now(), lastTime + 2000);
+    return Math.max(state.clock, lastTime + 2000);
 };
 
 
@@ -70,620 +375,3176 @@ const isAncestor = (state: GitState, ancestorId: string, descendantId: string):
         if (curr === ancestorId) return true;
 
         const commit = state.commits.find(c => c.id === curr);
-        if (commit) {
-            if (commit.parentId) queue.push(commit.parentId);
-            if (commit.secondParentId) queue.push(commit.secondParentId);
-        }
+        if (commit) queue.push(...getParentIds(commit));
     }
     return false;
 };
 
+// Ids of every commit in `commits` that can be reached from the given tips.
+const collectReachable = (commits: Commit[], tips: string[]): Set<string> => {
+    const reachable = new Set<string>();
+    const queue = [...tips];
+    while (queue.length > 0) {
+        const curr = queue.shift()!;
+        if (reachable.has(curr)) continue;
+        const commit = commits.find(c => c.id === curr);
+        if (!commit) continue;
+        reachable.add(curr);
+        queue.push(...getParentIds(commit));
+    }
+    return reachable;
+};
 
+const getReachable = (state: GitState, startId: string | null): Set<string> =>
+    collectReachable(state.commits, startId ? [startId] : []);
+
+// Commits no ref, HEAD or stash entry leads to any more, such as the
+// originals a rebase or amend replaced. Only the reflog still remembers them.
+export const getAbandonedCommits = (state: GitState): Set<string> => {
+    const kept = collectReachable(state.commits, [
+        ...state.branches.map(b => b.commitId),
+        ...state.tags.map(t => t.commitId),
+        ...state.remoteBranches.map(b => b.commitId),
+        ...state.stash,
+        getHeadCommitId(state)
+    ]);
+    return new Set(state.commits.filter(c => !kept.has(c.id)).map(c => c.id));
+};
 
-export const executeGitCommand = (
-    command: string,
-    state: GitState
-): { newState: GitState; output: string; success: boolean } => {
-    const parts = command.trim().split(/\s+/);
-    const cmd = parts[0];
-    const subCmd = parts[1];
-
-    if (cmd !== 'git') {
-        return { newState: state, output: "Command must start with 'git'", success: false };
+const getFirstParentChain = (state: GitState, startId: string): string[] => {
+    const chain: string[] = [];
+    let current: string | null | undefined = startId;
+    while (current && !chain.includes(current)) {
+        chain.push(current);
+        current = state.commits.find(c => c.id === current)?.parentId;
     }
+    return chain;
+};
 
+// The commits a push or fetch has to transfer: those reachable from `tips`
+// in the sending repository that the receiving one does not have yet.
+const missingCommits = (from: Commit[], to: Commit[], tips: string[]): Commit[] => {
+    const known = new Set(to.map(c => c.id));
+    const reachable = collectReachable(from, tips);
+    return from.filter(c => reachable.has(c.id) && !known.has(c.id));
+};
 
-    if (subCmd === 'init') {
-        return {
-            newState: INITIAL_STATE,
-            output: `Initialized empty Git repository in /project/.git/`,
-            success: true
+interface FetchedRef {
+    flag: ' ' | '*' | '+' | '-';
+    summary: string;
+    from: string;
+    to: string;
+    note?: string;
+}
+
+// Downloads everything new on a remote: commits, branches (as remote-tracking
+// branches) and tags that point into the fetched history (every tag with
+// `tags`). With `prune`, remote-tracking branches whose branch was deleted on
+// the remote are removed. Returns git's per-ref report lines.
+const fetchFromRemote = (state: GitState, remoteName: string, options: { prune: boolean; tags: boolean }): { state: GitState; lines: string[] } => {
+    const remote = state.remotes[remoteName];
+    const prefix = `${remoteName}/`;
+    const branchHistory = collectReachable(remote.commits, remote.branches.map(b => b.commitId));
+    const newTags = remote.tags.filter(t => !state.tags.some(l => l.name === t.name) && (options.tags || branchHistory.has(t.commitId)));
+    const received = missingCommits(remote.commits, state.commits, [...remote.branches, ...newTags].map(r => r.commitId));
+    const withCommits: GitState = { ...state, commits: [...state.commits, ...received] };
+
+    const refs: FetchedRef[] = [];
+    const pruned = options.prune
+        ? state.remoteBranches.filter(r => r.name.startsWith(prefix) && !remote.branches.some(b => `${prefix}${b.name}` === r.name))
+        : [];
+    pruned.forEach(r => refs.push({ flag: '-', summary: '[deleted]', from: '(none)', to: r.name }));
+
+    let remoteBranches = state.remoteBranches.filter(r => !pruned.includes(r));
+    remote.branches.forEach(b => {
+        const tracking = `${prefix}${b.name}`;
+        const oldId = state.remoteBranches.find(r => r.name === tracking)?.commitId;
+        if (oldId === b.commitId) return;
+        remoteBranches = setRef(remoteBranches, tracking, b.commitId);
+
+        if (!oldId) {
+            refs.push({ flag: '*', summary: '[new branch]', from: b.name, to: tracking });
+        } else if (isAncestor(withCommits, oldId, b.commitId)) {
+            refs.push({ flag: ' ', summary: `${oldId.substring(0, 7)}..${b.commitId.substring(0, 7)}`, from: b.name, to: tracking });
+        } else {
+            refs.push({ flag: '+', summary: `${oldId.substring(0, 7)}...${b.commitId.substring(0, 7)}`, from: b.name, to: tracking, note: '(forced update)' });
         }
-    }
-
+    });
+    newTags.forEach(t => refs.push({ flag: '*', summary: '[new tag]', from: t.name, to: t.name }));
+
+    const width = Math.max(10, ...refs.map(r => r.from.length));
+    return {
+        state: { ...withCommits, remoteBranches, tags: [...state.tags, ...newTags] },
+        lines: refs.map(r => ` ${r.flag} ${r.summary.padEnd(17)} ${r.from.padEnd(width)} -> ${r.to}${r.note ? `  ${r.note}` : ''}`)
+    };
+};
 
-    if (subCmd === 'remote') {
-        if (parts[2] === 'add') {
-            const name = parts[3];
-            const url = parts[4];
-            if (!name || !url) return { newState: state, output: 'usage: git remote add <name> <url>', success: false };
+const unknownRemoteError = (name: string) =>
+    `fatal: '${name}' does not appear to be a git repository\nfatal: Could not read from remote repository.\n\nPlease make sure you have the correct access rights\nand the repository exists.`;
+
+// Points `name` at `commitId`, creating the ref if it does not exist yet.
+const setRef = (refs: Branch[], name: string, commitId: string): Branch[] =>
+    refs.some(r => r.name === name)
+        ? refs.map(r => (r.name === name ? { ...r, commitId } : r))
+        : [...refs, { name, commitId }];
+
+interface PushRef {
+    // Local ref being pushed (null deletes `dst` on the remote)
+    src: string | null;
+    // The source as the refspec names it, e.g. `HEAD`, for the push report
+    srcLabel?: string;
+    srcId: string | null;
+    dst: string;
+    tag: boolean;
+    force: boolean;
+    // --force-with-lease: where the remote ref must still be for the push to
+    // go through (null: it must not exist); undefined when no lease applies
+    lease?: string | null;
+}
+
+type PushRejection = 'fetch first' | 'non-fast-forward' | 'already exists' | 'stale info';
+
+const PUSH_HINTS: Record<PushRejection, string> = {
+    'fetch first': `hint: Updates were rejected because the remote contains work that you do not\nhint: have locally. This is usually caused by another repository pushing to\nhint: the same ref. Integrate the remote changes (e.g.\nhint: 'git pull ...') before pushing again.`,
+    'non-fast-forward': `hint: Updates were rejected because the tip of your current branch is behind\nhint: its remote counterpart. Integrate the remote changes (e.g.\nhint: 'git pull ...') before pushing again.`,
+    'already exists': 'hint: Updates were rejected because the tag already exists in the remote.',
+    'stale info': ''
+};
 
+const PUSH_REJECTION_CODES: Record<PushRejection, GitErrorCode> = {
+    'fetch first': 'non-fast-forward',
+    'non-fast-forward': 'non-fast-forward',
+    'already exists': 'already-exists',
+    'stale info': 'non-fast-forward'
+};
 
-            return {
-                newState: state,
-                output: `Added remote '${name}' as '${url}'`,
-                success: true
-            };
+// Applies push ref updates to a remote one by one, like git: fast-forwards
+// and new refs always go through, rewinding a ref needs force (or a lease
+// that still matches the remote), and each rejected ref is reported without
+// stopping the others. Returns git's per-ref report.
+const pushToRemote = (state: GitState, remoteName: string, refs: PushRef[]): { state: GitState; lines: string[]; errors: string[]; rejections: PushRejection[]; sent: number; pushed: PushRef[] } => {
+    let remote = state.remotes[remoteName];
+    let remoteBranches = state.remoteBranches;
+    const lines: string[] = [];
+    const errors: string[] = [];
+    const rejections: PushRejection[] = [];
+    const pushed: PushRef[] = [];
+    let sent = 0;
+    const line = (flag: string, summary: string, ref: PushRef, note = '') =>
+        ` ${flag} ${summary.padEnd(17)} ${ref.src ? `${ref.srcLabel ?? ref.src} -> ${ref.dst}` : ref.dst}${note ? ` (${note})` : ''}`;
+
+    for (const ref of refs) {
+        const remoteRefs = ref.tag ? remote.tags : remote.branches;
+        const oldId = remoteRefs.find(r => r.name === ref.dst)?.commitId ?? null;
+        const tracking = `${remoteName}/${ref.dst}`;
+
+        if (ref.lease !== undefined && ref.lease !== oldId) {
+            lines.push(line('!', '[rejected]', ref, 'stale info'));
+            rejections.push('stale info');
+            continue;
         }
-        if (parts[2] === '-v' || parts[2] === 'get-url') {
-            return {
-                newState: state,
-                output: `origin  https://github.com/user/repo.git (fetch)\norigin  https://github.com/user/repo.git (push)`,
-                success: true
+
+        if (!ref.srcId) {
+            if (!oldId) {
+                errors.push(`error: unable to delete '${ref.dst}': remote ref does not exist`);
+                continue;
             }
+            const branches = remote.branches.filter(b => b.name !== ref.dst);
+            remote = ref.tag
+                ? { ...remote, tags: remote.tags.filter(t => t.name !== ref.dst) }
+                : { ...remote, branches, head: remote.head === ref.dst ? branches[0]?.name ?? null : remote.head };
+            remoteBranches = remoteBranches.filter(b => b.name !== tracking);
+            lines.push(line('-', '[deleted]', ref));
+            pushed.push(ref);
+            continue;
         }
-        return { newState: state, output: '', success: true };
-    }
 
+        if (oldId === ref.srcId) {
+            if (!ref.tag) remoteBranches = setRef(remoteBranches, tracking, ref.srcId);
+            pushed.push(ref);
+            continue;
+        }
 
-    if (subCmd === 'log') {
-        const logOutput = state.commits
-            .sort((a, b) => b.timestamp - a.timestamp)
-            .map(c => {
-                const date = new Date(c.timestamp).toLocaleTimeString();
-                return `commit ${c.id}\nAuthor: ${c.author}\nDate: ${date}\n\n    ${c.message}`;
-            })
-            .join('\n\n');
-        return { newState: state, output: logOutput || '(no commits)', success: true };
-    }
+        const fastForward = !oldId || isAncestor(state, oldId, ref.srcId);
+        const rejection: PushRejection | null = ref.force || ref.lease !== undefined
+            ? null
+            : ref.tag && oldId ? 'already exists'
+                : fastForward ? null
+                    : !state.commits.some(c => c.id === oldId) ? 'fetch first' : 'non-fast-forward';
+        if (rejection) {
+            lines.push(line('!', '[rejected]', ref, rejection));
+            rejections.push(rejection);
+            continue;
+        }
 
+        const received = missingCommits(state.commits, remote.commits, [ref.srcId]);
+        sent += received.length;
+        remote = {
+            ...remote,
+            commits: [...remote.commits, ...received],
+            ...(ref.tag
+                ? { tags: [...remote.tags.filter(t => t.name !== ref.dst), { ...state.tags.find(t => t.name === ref.src), name: ref.dst, commitId: ref.srcId }] }
+                : { branches: setRef(remote.branches, ref.dst, ref.srcId), head: remote.head ?? ref.dst })
+        };
+        if (!ref.tag) remoteBranches = setRef(remoteBranches, tracking, ref.srcId);
+        pushed.push(ref);
 
-    if (subCmd === 'add') {
-        return { newState: state, output: '', success: true };
+        if (!oldId) lines.push(line('*', ref.tag ? '[new tag]' : '[new branch]', ref));
+        else if (fastForward) lines.push(line(' ', `${oldId.substring(0, 7)}..${ref.srcId.substring(0, 7)}`, ref));
+        else lines.push(line('+', `${oldId.substring(0, 7)}...${ref.srcId.substring(0, 7)}`, ref, 'forced update'));
     }
 
+    return { state: { ...state, remotes: { ...state.remotes, [remoteName]: remote }, remoteBranches }, lines, errors, rejections, sent, pushed };
+};
 
-    if (subCmd === 'clone') {
-
-        const clonedState: GitState = {
-            commits: [
-                { id: 'c82a', message: 'Initial public release', parentId: null, secondParentId: null, timestamp: Date.now() - 10000, author: 'Origin' },
-                { id: 'a12b', message: 'Update README', parentId: 'c82a', secondParentId: null, timestamp: Date.now() - 5000, author: 'Origin' }
-            ],
-            branches: [
-                { name: 'main', commitId: 'a12b' },
-                { name: 'origin/main', commitId: 'a12b' }
-            ],
-            tags: [],
-            head: { type: 'branch', ref: 'main' }
-        };
-        return {
-            newState: clonedState,
-            output: `Cloning into 'project'...\nRemote: Enumerating objects: 5, done.\nRemote: Total 5 (delta 0), reused 0 (delta 0)\nUnpacking objects: 100% (5/5), done.`,
-            success: true
-        };
-    }
-
+const countAheadBehind = (state: GitState, localId: string, upstreamId: string): { ahead: number; behind: number } => {
+    const local = getReachable(state, localId);
+    const upstream = getReachable(state, upstreamId);
+    return {
+        ahead: Array.from(local).filter(id => !upstream.has(id)).length,
+        behind: Array.from(upstream).filter(id => !local.has(id)).length
+    };
+};
 
-    if (subCmd === 'fetch') {
+type StatusCode = 'A' | 'M' | 'D' | ' ';
 
-        const originBranch = state.branches.find(b => b.name === 'origin/main');
-        if (!originBranch) return { newState: state, output: 'No remote found', success: false };
+const CONFLICT_CODES: Record<MergeConflict['kind'], string> = {
+    'both modified': 'UU',
+    'both added': 'AA',
+    'deleted by us': 'DU',
+    'deleted by them': 'UD'
+};
 
-        const newCommitId = generateShortId();
-        const newCommit: Commit = {
-            id: newCommitId,
-            message: 'Remote update',
-            parentId: originBranch.commitId,
-            secondParentId: null,
-            timestamp: getNextTimestamp(state),
-            author: 'Teammate'
-        };
+const getFileStatuses = (state: GitState) => {
+    const headTree = getCommitTree(state, getHeadCommitId(state));
+    const conflicts = state.conflicts;
+    const isConflicted = (path: string) => conflicts.some(c => c.path === path);
+    const code = (from: string | undefined, to: string | undefined): StatusCode =>
+        from === to ? ' ' : from === undefined ? 'A' : to === undefined ? 'D' : 'M';
+    const tracked = changedPaths(headTree, state.index).map(path => ({ path, staged: code(headTree[path], state.index[path]), unstaged: ' ' as StatusCode }));
+    changedPaths(state.index, state.workingTree)
+        .filter(path => state.index[path] !== undefined)
+        .forEach(path => {
+            const entry = tracked.find(t => t.path === path);
+            const unstaged = code(state.index[path], state.workingTree[path]);
+            if (entry) entry.unstaged = unstaged;
+            else tracked.push({ path, staged: ' ', unstaged });
+        });
+    return {
+        tracked: tracked.filter(t => !isConflicted(t.path)).sort((a, b) => a.path.localeCompare(b.path)),
+        conflicts,
+        untracked: Object.keys(state.workingTree).filter(p => state.index[p] === undefined && !isConflicted(p)).sort()
+    };
+};
 
-        const newBranches = state.branches.map(b =>
-            b.name === 'origin/main' ? { ...b, commitId: newCommitId } : b
-        );
+const STATUS_LABELS: Record<StatusCode, string> = { A: 'new file:   ', M: 'modified:   ', D: 'deleted:    ', ' ': '' };
 
-        return {
-            newState: {
-                ...state,
-                commits: [...state.commits, newCommit],
-                branches: newBranches
-            },
-            output: `From https://github.com/demo/repo\n   ${originBranch.commitId.substring(0, 4)}..${newCommitId.substring(0, 4)}  main       -> origin/main`,
-            success: true
-        };
-    }
+const subjectOf = (message: string) => message.split('\n')[0];
 
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
 
-    if (subCmd === 'pull') {
+// How far a local branch has moved away from its upstream. `gone` means the
+// upstream is configured but its remote-tracking branch no longer exists.
+export const getTrackingStatus = (state: GitState, branch: string): { upstream: string; ahead: number; behind: number; gone: boolean } | null => {
+    const local = state.branches.find(b => b.name === branch);
+    const upstreamName = getUpstreamName(state, branch);
+    if (!local || !upstreamName) return null;
+    const upstream = state.remoteBranches.find(b => b.name === upstreamName);
+    if (!upstream) return { upstream: upstreamName, ahead: 0, behind: 0, gone: true };
+    return { upstream: upstreamName, ...countAheadBehind(state, local.commitId, upstream.commitId), gone: false };
+};
 
-        const fetchRes = executeGitCommand('git fetch', state);
-        if (!fetchRes.success) return fetchRes;
+const formatTrackingInfo = (state: GitState): { short: string; long: string } | null => {
+    if (state.head.type !== 'branch') return null;
+    const tracking = getTrackingStatus(state, state.head.ref);
+    if (!tracking) return null;
 
+    const { upstream: upstreamName, ahead, behind } = tracking;
+    if (tracking.gone) {
+        return { short: `...${upstreamName} [gone]`, long: `Your branch is based on '${upstreamName}', but the upstream is gone.\n  (use "git branch --unset-upstream" to fixup)` };
+    }
+    const counts = [ahead && `ahead ${ahead}`, behind && `behind ${behind}`].filter(Boolean).join(', ');
+    const short = `...${upstreamName}${counts ? ` [${counts}]` : ''}`;
 
-        const mergeRes = executeGitCommand('git merge origin/main', fetchRes.newState);
+    if (ahead && behind) {
+        return { short, long: `Your branch and '${upstreamName}' have diverged,\nand have ${ahead} and ${behind} different commits each, respectively.\n  (use "git pull" if you want to integrate the remote branch with yours)` };
+    }
+    if (ahead) {
+        return { short, long: `Your branch is ahead of '${upstreamName}' by ${plural(ahead, 'commit')}.\n  (use "git push" to publish your local commits)` };
+    }
+    if (behind) {
+        return { short, long: `Your branch is behind '${upstreamName}' by ${plural(behind, 'commit')}, and can be fast-forwarded.\n  (use "git pull" to update your local branch)` };
+    }
+    return { short, long: `Your branch is up to date with '${upstreamName}'.` };
+};
 
-        return {
-            newState: mergeRes.newState,
-            output: `${fetchRes.output}\n${mergeRes.output}`,
-            success: true
-        };
+// `git branch` listing. Verbosity 1 (-v) adds each tip and how far the branch
+// is ahead of or behind its upstream, 2 (-vv) also names the upstream.
+interface BranchListOptions {
+    verbosity: 0 | 1 | 2;
+    // Local branches, remote-tracking branches (-r) or both (-a)
+    local: boolean;
+    remote: boolean;
+    // Patterns and --contains/--merged filters
+    include: (name: string, commitId: string) => boolean;
+}
+
+const formatBranchList = (state: GitState, { verbosity, local, remote, include }: BranchListOptions): string => {
+    const byName = (a: Branch, b: Branch) => (a.name < b.name ? -1 : 1);
+    const rows = [
+        ...(local ? [...state.branches].sort(byName) : [])
+            .map(b => ({ name: b.name, commitId: b.commitId, current: state.head.type === 'branch' && state.head.ref === b.name, tracks: true })),
+        ...(remote ? [...state.remoteBranches].sort(byName) : [])
+            .map(b => ({ name: local ? `remotes/${b.name}` : b.name, commitId: b.commitId, current: false, tracks: false }))
+    ].filter(row => include(row.name, row.commitId));
+    if (local && state.head.type === 'commit' && include('HEAD', state.head.ref)) {
+        rows.unshift({ name: `(HEAD detached at ${state.head.ref.substring(0, 7)})`, commitId: state.head.ref, current: true, tracks: false });
     }
 
+    const width = Math.max(0, ...rows.map(r => r.name.length));
+    return rows.map(row => {
+        const marker = row.current ? '* ' : '  ';
+        if (verbosity === 0) return `${marker}${row.name}`;
+
+        const tracking = row.tracks ? getTrackingStatus(state, row.name) : null;
+        const counts = tracking?.gone
+            ? 'gone'
+            : [tracking?.ahead && `ahead ${tracking.ahead}`, tracking?.behind && `behind ${tracking.behind}`].filter(Boolean).join(', ');
+        const label = !tracking ? '' : verbosity === 2 ? `[${tracking.upstream}${counts ? `: ${counts}` : ''}] ` : counts ? `[${counts}] ` : '';
+        const subject = subjectOf(state.commits.find(c => c.id === row.commitId)?.message ?? '');
+        return `${marker}${row.name.padEnd(width)} ${row.commitId.substring(0, 7)} ${label}${subject}`;
+    }).join('\n');
+};
 
-    if (subCmd === 'push') {
-        const currentBranch = state.head.ref;
-        if (state.head.type !== 'branch') return { newState: state, output: 'fatal: You are not currently on a branch.', success: false };
+// git check-ref-format's rules for the name of a branch or tag.
+const isValidRefName = (name: string): boolean =>
+    name !== '' && name !== '@' && name !== 'HEAD' && !name.startsWith('-')
+    && !/[\x00-\x20\x7f~^:?*[\\]|\.\.|@\{|\/\/|^\/|\/$|\.$|(^|\/)\.|\.lock(\/|$)/.test(name);
+
+const invalidBranchName = (name: string): string => `fatal: '${name}' is not a valid branch name`;
+
+const formatRebaseStatus = (rebase: RebaseState, conflicted: boolean): string => {
+    const onto = rebase.ontoId.substring(0, 7);
+    const describe = (items: RebaseTodoItem[]) => items.map(i => `   ${i.action} ${i.commitId.substring(0, 7)} ${subjectOf(i.message)}`);
+    const lines = [`${rebase.interactive ? 'interactive rebase' : 'rebase'} in progress; onto ${onto}`];
+    if (rebase.interactive) {
+        if (rebase.done.length > 0) {
+            lines.push(`Last command${rebase.done.length === 1 ? '' : 's'} done (${plural(rebase.done.length, 'command')} done):`, ...describe(rebase.done.slice(-2)));
+            if (rebase.done.length > 2) lines.push('  (see more in file .git/rebase-merge/done)');
+        }
+        lines.push(rebase.todo.length > 0
+            ? `Next command${rebase.todo.length === 1 ? '' : 's'} to do (${plural(rebase.todo.length, 'remaining command')}):`
+            : 'No commands remaining.', ...describe(rebase.todo.slice(0, 2)));
+        lines.push('  (use "git rebase --edit-todo" to view and edit)');
+    }
 
+    const target = `${rebase.branch ? `branch '${rebase.branch}'` : 'detached HEAD'} on '${onto}'`;
+    if (conflicted) {
+        lines.push(`You are currently rebasing ${target}.`, '  (fix conflicts and then run "git rebase --continue")', '  (use "git rebase --skip" to skip this patch)', '  (use "git rebase --abort" to check out the original branch)');
+    } else if (rebase.stopped?.reason === 'edit') {
+        lines.push(`You are currently editing a commit while rebasing ${target}.`, '  (use "git commit --amend" to amend the current commit)', '  (use "git rebase --continue" once you are satisfied with your changes)');
+    } else {
+        lines.push(`You are currently rebasing ${target}.`, '  (all conflicts fixed: run "git rebase --continue")');
+    }
+    return lines.join('\n');
+};
 
-        if (parts.includes('-u') || parts.includes('--set-upstream')) {
+const C_ESCAPES: Record<string, string> = { '"': '\\"', '\\': '\\\\', '\x07': '\\a', '\b': '\\b', '\t': '\\t', '\n': '\\n', '\v': '\\v', '\f': '\\f', '\r': '\\r' };
+
+// A path as short status prints it: wrapped in double quotes with C-style
+// escapes (and octal bytes for anything outside printable ASCII) when it
+// holds a space, a quote, a backslash or such a character.
+const quotePath = (path: string): string => {
+    if (!/[^\x21-\x7e]|["\\]/.test(path)) return path;
+    const bytes = Array.from(new TextEncoder().encode(path));
+    return `"${bytes.map(b => {
+        const ch = String.fromCharCode(b);
+        if (C_ESCAPES[ch]) return C_ESCAPES[ch];
+        return b >= 0x20 && b < 0x7f ? ch : `\\${b.toString(8).padStart(3, '0')}`;
+    }).join('')}"`;
+};
 
+const formatStatus = (state: GitState, format: 'long' | 'short', showBranch: boolean): string => {
+    const { tracked, conflicts, untracked } = getFileStatuses(state);
+    const tracking = formatTrackingInfo(state);
+    const unborn = state.head.type === 'branch' && !state.branches.some(b => b.name === state.head.ref);
+
+    if (format === 'short') {
+        const lines = [
+            ...[...tracked.map(t => ({ path: t.path, line: `${t.staged}${t.unstaged} ${quotePath(t.path)}` })),
+                ...conflicts.map(c => ({ path: c.path, line: `${CONFLICT_CODES[c.kind]} ${quotePath(c.path)}` }))]
+                .sort((a, b) => a.path.localeCompare(b.path))
+                .map(entry => entry.line),
+            ...untracked.map(p => `?? ${quotePath(p)}`)
+        ];
+        if (showBranch) {
+            const branchLine = state.head.type === 'commit'
+                ? '## HEAD (no branch)'
+                : `## ${unborn ? 'No commits yet on ' : ''}${state.head.ref}${tracking?.short ?? ''}`;
+            lines.unshift(branchLine);
         }
+        return lines.join('\n');
+    }
 
-        const branch = state.branches.find(b => b.name === currentBranch);
-        if (!branch) return { newState: state, output: 'error', success: false };
+    const sections: string[] = [];
+    const header = state.head.type === 'commit' ? `HEAD detached at ${state.head.ref.substring(0, 7)}` : `On branch ${state.head.ref}`;
+    if (state.rebase) sections.push(formatRebaseStatus(state.rebase, conflicts.length > 0));
+    else sections.push(tracking ? `${header}\n${tracking.long}` : header);
+    if (unborn) sections.push('No commits yet');
+    if (state.merge) {
+        sections[0] += '\n' + (conflicts.length > 0
+            ? 'You have unmerged paths.\n  (fix conflicts and run "git commit")\n  (use "git merge --abort" to abort the merge)'
+            : 'All conflicts fixed but you are still merging.\n  (use "git commit" to conclude merge)');
+    }
+    if (state.pick) {
+        const { kind, commitId } = state.pick;
+        sections[0] += [
+            `\nYou are currently ${kind === 'revert' ? 'reverting' : 'cherry-picking'} commit ${commitId.substring(0, 7)}.`,
+            conflicts.length > 0 ? `(fix conflicts and run "git ${kind} --continue")` : `(all conflicts fixed: run "git ${kind} --continue")`,
+            `(use "git ${kind} --skip" to skip this patch)`,
+            `(use "git ${kind} --abort" to cancel the ${kind} operation)`
+        ].join('\n  ');
+    }
 
-        const remoteName = `origin/${currentBranch}`;
-        const remoteBranch = state.branches.find(b => b.name === remoteName);
+    const staged = tracked.filter(t => t.staged !== ' ');
+    if (staged.length > 0) {
+        sections.push(`Changes to be committed:\n  (use "git restore --staged <file>..." to unstage)\n${staged.map(t => `\t${STATUS_LABELS[t.staged]}${t.path}`).join('\n')}`);
+    }
+    if (conflicts.length > 0) {
+        sections.push(`Unmerged paths:\n  (use "git add <file>..." to mark resolution)\n${conflicts.map(c => `\t${`${c.kind}:`.padEnd(16)} ${c.path}`).join('\n')}`);
+    }
+    const unstaged = tracked.filter(t => t.unstaged !== ' ');
+    if (unstaged.length > 0) {
+        sections.push(`Changes not staged for commit:\n  (use "git add${unstaged.some(t => t.unstaged === 'D') ? '/rm' : ''} <file>..." to update what will be committed)\n  (use "git restore <file>..." to discard changes in working directory)\n${unstaged.map(t => `\t${STATUS_LABELS[t.unstaged]}${t.path}`).join('\n')}`);
+    }
+    if (untracked.length > 0) {
+        sections.push(`Untracked files:\n  (use "git add <file>..." to include in what will be committed)\n${untracked.map(p => `\t${p}`).join('\n')}`);
+    }
+    if (conflicts.length > 0) sections.push('no changes added to commit (use "git add" and/or "git commit -a")');
+    else if (staged.length === 0 && !state.merge) sections.push(nothingToCommit(state));
 
+    // git only leaves a blank line after the header when it has tracking or merge details
+    const [first, ...rest] = sections;
+    return tracking || state.merge || state.pick || state.rebase || unborn ? sections.join('\n\n') : `${first}\n${rest.join('\n\n')}`;
+};
 
-        if (remoteBranch) {
-            const isFF = isAncestor(state, remoteBranch.commitId, branch.commitId);
-            if (!isFF && remoteBranch.commitId !== branch.commitId) {
-                return {
-                    newState: state,
-                    output: `! [rejected]        ${currentBranch} -> ${currentBranch} (non-fast-forward)\nhint: Updates were rejected because the tip of your current branch is behind\nhint: its remote counterpart. Integrate the remote changes (e.g.\nhint: 'git pull ...') before pushing again.`,
-                    success: false
-                };
-            }
-        }
+// Git's default date format, e.g. `Mon Jan 15 09:00:00 2024 +0000`. The
+// simulated clock runs in UTC so output does not depend on the viewer.
+const formatDate = (timestamp: number): string => {
+    const d = new Date(timestamp);
+    const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][d.getUTCDay()];
+    const month = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'][d.getUTCMonth()];
+    const time = [d.getUTCHours(), d.getUTCMinutes(), d.getUTCSeconds()].map(n => String(n).padStart(2, '0')).join(':');
+    return `${day} ${month} ${d.getUTCDate()} ${time} ${d.getUTCFullYear()} +0000`;
+};
 
-        const newBranches = state.branches.filter(b => b.name !== remoteName);
-        newBranches.push({ name: remoteName, commitId: branch.commitId });
+const formatCommitHeader = (commit: Commit, decoration = ''): string => {
+    const date = formatDate(commit.timestamp);
+    const merge = commit.secondParentId ? `\nMerge: ${getParentIds(commit).map(p => p.substring(0, 7)).join(' ')}` : '';
+    const body = commit.message.split('\n').map(line => (line ? `    ${line}` : '')).join('\n');
+    return `commit ${commit.id}${decoration ? ` (${decoration})` : ''}${merge}\nAuthor: ${commit.author}\nDate:   ${date}\n\n${body}`;
+};
 
-        return {
-            newState: { ...state, branches: newBranches },
-            output: `Enumerating objects: 3, done.\nTo https://github.com/demo/repo.git\n   ${branch.commitId.substring(0, 7)}..${branch.commitId.substring(0, 7)}  ${currentBranch} -> ${currentBranch}`,
-            success: true
-        };
-    }
+// The refs pointing at a commit as `git log --decorate` lists them, e.g.
+// `HEAD -> main, tag: v1.0, origin/main`.
+const formatDecoration = (state: GitState, commitId: string): string => {
+    const byName = (a: { name: string }, b: { name: string }) => (a.name < b.name ? -1 : 1);
+    const at = <T extends { name: string; commitId: string }>(refs: T[]) => refs.filter(r => r.commitId === commitId).sort(byName);
+    const headBranch = state.head.type === 'branch' ? state.head.ref : null;
+    return [
+        ...(state.head.type === 'commit' && state.head.ref === commitId ? ['HEAD'] : []),
+        ...at(state.branches).filter(b => b.name === headBranch).map(b => `HEAD -> ${b.name}`),
+        ...at(state.tags).map(t => `tag: ${t.name}`),
+        ...at(state.branches).filter(b => b.name !== headBranch).map(b => b.name),
+        ...at(state.remoteBranches).map(b => b.name)
+    ].join(', ');
+};
 
+const formatRelativeDate = (timestamp: number, now: number): string => {
+    const seconds = Math.max(0, Math.round((now - timestamp) / 1000));
+    const units: [number, string][] = [[31536000, 'year'], [2592000, 'month'], [604800, 'week'], [86400, 'day'], [3600, 'hour'], [60, 'minute']];
+    const [size, unit] = units.find(([s]) => seconds >= s) ?? [1, 'second'];
+    return `${plural(Math.floor(seconds / size), unit)} ago`;
+};
 
-    if (subCmd === 'commit') {
-        const fullCmd = parts.join(' ');
-        const quoteStart = fullCmd.indexOf('"');
-        const quoteEnd = fullCmd.lastIndexOf('"');
+// Expands a `--format` string. Unknown placeholders are printed as they are,
+// like git does.
+const formatLogTemplate = (state: GitState, commit: Commit, template: string): string => {
+    const [subject, ...rest] = commit.message.split('\n');
+    const parents = getParentIds(commit);
+    const decoration = formatDecoration(state, commit.id);
+    const placeholders: Record<string, string> = {
+        H: commit.id,
+        h: commit.id.substring(0, 7),
+        s: subject,
+        b: rest.join('\n').replace(/^\n+/, ''),
+        B: commit.message,
+        an: splitIdentity(commit.author).name,
+        ae: splitIdentity(commit.author).email,
+        ad: formatDate(commit.timestamp),
+        ar: formatRelativeDate(commit.timestamp, state.clock),
+        d: decoration ? ` (${decoration})` : '',
+        D: decoration,
+        P: parents.join(' '),
+        p: parents.map(p => p.substring(0, 7)).join(' '),
+        n: '\n',
+        '%': '%'
+    };
+    return template.replace(/%(an|ae|ad|ar|[HhsbBdDPpn%])/g, (match, key: string) => placeholders[key] ?? match);
+};
 
+// Git's approxidate for the forms people actually type: "2 weeks ago",
+// "3.days", "yesterday" or an absolute date.
+const parseApproxDate = (value: string, now: number): number | null => {
+    const relative = value.trim().match(/^(\d+)[\s.]*(second|minute|hour|day|week|month|year)s?(?:[\s.]*ago)?$/i);
+    if (relative) {
+        const seconds: Record<string, number> = { second: 1, minute: 60, hour: 3600, day: 86400, week: 604800, month: 2592000, year: 31536000 };
+        return now - parseInt(relative[1], 10) * seconds[relative[2].toLowerCase()] * 1000;
+    }
+    if (value === 'now') return now;
+    if (value === 'yesterday') return now - 86400000;
+    const absolute = Date.parse(value);
+    return Number.isNaN(absolute) ? null : absolute;
+};
 
-        if (parts.includes('--amend')) {
-            const headId = getHeadCommitId(state);
-            const oldCommit = state.commits.find(c => c.id === headId);
-            if (!oldCommit) return { newState: state, output: 'Nothing to amend', success: false };
+// Orders commits the way `git log` walks them: newest first, but never a
+// parent before any of its children.
+const orderForLog = (state: GitState, ids: Set<string>, firstParent: boolean): Commit[] => {
+    const commits = state.commits.filter(c => ids.has(c.id));
+    const parentsOf = (c: Commit) => (firstParent ? [c.parentId] : getParentIds(c)).filter((p): p is string => !!p && ids.has(p));
+    const children: Record<string, number> = {};
+    commits.forEach(c => parentsOf(c).forEach(p => { children[p] = (children[p] ?? 0) + 1; }));
+
+    const ordered: Commit[] = [];
+    let ready = commits.filter(c => !children[c.id]);
+    while (ready.length > 0) {
+        const next = ready.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+        ordered.push(next);
+        ready = ready.filter(c => c !== next);
+        parentsOf(next).forEach(p => {
+            children[p]--;
+            if (children[p] === 0) ready.push(commits.find(c => c.id === p)!);
+        });
+    }
+    return ordered;
+};
 
-            let newMessage = oldCommit.message;
-            if (parts.includes('-m') && quoteStart !== -1) {
-                newMessage = fullCmd.substring(quoteStart + 1, quoteEnd);
-            }
+// The change a commit introduced, relative to its first parent.
+export const getCommitDiff = (state: GitState, commitId: string) => {
+    const commit = state.commits.find(c => c.id === commitId);
+    return commit ? diffTrees(getCommitTree(state, commit.parentId), commit.tree) : [];
+};
 
-            const updatedCommits = state.commits.map(c =>
-                c.id === headId ? { ...c, message: newMessage, timestamp: Date.now() } : c
-            );
+const formatDiffOutput = (flags: Set<string>, oldTree: FileTree, newTree: FileTree, paths: string[]): string => {
+    const diffs = diffTrees(oldTree, newTree).filter(d => paths.length === 0 || paths.some(p => matchesPathspec(d.path, p)));
+    if (flags.has('--name-only')) return diffs.map(d => d.path).join('\n');
+    if (flags.has('--name-status')) return diffs.map(d => `${d.status[0].toUpperCase()}\t${d.path}`).join('\n');
+    if (flags.has('--stat')) return formatDiffStat(diffs);
+    return formatUnifiedDiff(diffs);
+};
 
-            return {
-                newState: { ...state, commits: updatedCommits },
-                output: `[detached HEAD] ${headId} ${newMessage}`,
-                success: true
-            }
-        }
+// `Merge branch 'a'`, or for an octopus `Merge branches 'a' and 'b', tag 'v1'`
+const defaultMergeMessage = (state: GitState, sourceNames: string[]): string => {
+    const kindOf = (name: string) => state.branches.some(b => b.name === name)
+        ? 'branch'
+        : state.remoteBranches.some(b => b.name === name)
+            ? 'remote-tracking branch'
+            : state.tags.some(t => t.name === name) ? 'tag' : 'commit';
+    const byKind = new Map<string, string[]>();
+    sourceNames.forEach(name => byKind.set(kindOf(name), [...(byKind.get(kindOf(name)) ?? []), `'${name}'`]));
+    const listed = Array.from(byKind, ([kind, names]) => names.length === 1
+        ? `${kind} ${names[0]}`
+        : `${kind.endsWith('branch') ? `${kind}es` : `${kind}s`} ${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`);
+    const into = state.head.ref === 'main' || state.head.ref === 'master' ? '' : ` into ${state.head.ref}`;
+    return `Merge ${listed.join(', ')}${into}`;
+};
 
-        let message = `Commit ${generateShortId()}`;
-        if (quoteStart !== -1 && quoteEnd !== -1 && quoteEnd > quoteStart) {
-            message = fullCmd.substring(quoteStart + 1, quoteEnd);
-        } else {
-            message = `Update ${generateShortId()}`;
-        }
+// SQUASH_MSG as `git merge --squash` writes it: the log of every commit
+// being squashed
+const formatSquashMessage = (state: GitState, headId: string, sourceIds: string[]): string => {
+    const inHead = getReachable(state, headId);
+    const squashed = Array.from(collectReachable(state.commits, sourceIds)).filter(id => !inHead.has(id));
+    return `Squashed commit of the following:\n\n${orderForLog(state, new Set(squashed), false).map(c => formatCommitHeader(c)).join('\n\n')}`;
+};
 
-        const currentHeadId = getHeadCommitId(state);
-        const newCommit: Commit = {
-            id: generateShortId(),
-            message,
-            parentId: currentHeadId,
-            secondParentId: null,
-            timestamp: getNextTimestamp(state),
-            author: 'User',
-        };
+const DIVERGING_ERROR = `hint: Diverging branches can't be fast-forwarded, you need to either:\nhint:\nhint: \tgit merge --no-ff\nhint:\nhint: or:\nhint:\nhint: \tgit rebase\nhint:\nhint: Disable this message with "git config advice.diverging false"\nfatal: Not possible to fast-forward, aborting.`;
 
-        let newBranches = [...state.branches];
+const DIVERGENT_PULL_ERROR = `hint: You have divergent branches and need to specify how to reconcile them.\nhint: You can do so by running one of the following commands sometime before\nhint: your next pull:\nhint:\nhint:   git config pull.rebase false  # merge\nhint:   git config pull.rebase true   # rebase\nhint:   git config pull.ff only       # fast-forward only\nhint:\nhint: You can replace "git config" with "git config --global" to set a default\nhint: preference for all repositories. You can also pass --rebase, --no-rebase,\nhint: or --ff-only on the command line to override the configured default per\nhint: invocation.\nfatal: Need to specify how to reconcile divergent branches.`;
 
-        if (state.head.type === 'branch') {
-            newBranches = newBranches.map((b) =>
-                b.name === state.head.ref ? { ...b, commitId: newCommit.id } : b
-            );
-        } else {
-            return {
-                newState: {
-                    ...state,
-                    commits: [...state.commits, newCommit],
-                    head: { type: 'commit', ref: newCommit.id }
-                },
-                output: `[detached HEAD] ${newCommit.id} ${message}`,
-                success: true
-            };
-        }
+// Git's boolean config spellings; anything else is not a boolean.
+const parseConfigBool = (value: string | undefined): boolean | null => {
+    if (value === undefined) return null;
+    const v = value.toLowerCase();
+    if (['true', 'yes', 'on', '1'].includes(v)) return true;
+    if (['false', 'no', 'off', '0', ''].includes(v)) return false;
+    return null;
+};
 
-        return {
-            newState: {
-                ...state,
-                commits: [...state.commits, newCommit],
-                branches: newBranches,
-            },
-            output: `[${state.head.ref}] ${newCommit.id} ${message}`,
-            success: true,
-        };
-    }
+const CONFIG_SCOPES: ConfigScope[] = ['system', 'global', 'local'];
 
+const CONFIG_FILES: Record<ConfigScope, string> = {
+    system: '/etc/gitconfig',
+    global: '/home/user/.gitconfig',
+    local: '.git/config'
+};
 
-    if (subCmd === 'branch') {
+const EMPTY_CONFIG: GitState['config'] = { system: {}, global: {}, local: {} };
 
-        if (parts[2] === '-M') {
-            const newName = parts[3];
-            const currentRef = state.head.ref;
-            if (state.head.type !== 'branch') return { newState: state, output: 'Must be on a branch to rename', success: false };
+// Section and variable names are case-insensitive, a subsection
+// (`branch.Feature.remote`) is not.
+const normalizeConfigKey = (key: string): string => {
+    const first = key.indexOf('.');
+    const last = key.lastIndexOf('.');
+    return `${key.slice(0, first).toLowerCase()}${key.slice(first, last)}${key.slice(last).toLowerCase()}`;
+};
 
-            const newBranches = state.branches.map(b => b.name === currentRef ? { ...b, name: newName } : b);
-            return {
-                newState: {
-                    ...state,
-                    branches: newBranches,
-                    head: { type: 'branch', ref: newName }
-                },
-                output: `Renamed branch to '${newName}'`,
-                success: true
-            };
-        }
+// The value git sees: local settings override global ones, which override
+// system ones.
+const getConfig = (state: GitState, key: string): string | undefined => {
+    const normalized = normalizeConfigKey(key);
+    const scope = [...CONFIG_SCOPES].reverse().find(s => state.config[s][normalized] !== undefined);
+    return scope ? state.config[scope][normalized] : undefined;
+};
 
-        const branchName = parts[2];
-        if (!branchName) return { newState: state, output: 'Branch name required', success: false };
-        if (state.branches.find((b) => b.name === branchName)) {
-            return { newState: state, output: `fatal: A branch named '${branchName}' already exists.`, success: false };
-        }
+// A fresh repository starts with an empty local config but still sees the
+// user's system and global settings.
+export const keepUserConfig = (state: GitState, previous: GitState): GitState => ({
+    ...state,
+    config: { ...state.config, system: previous.config.system, global: previous.config.global }
+});
+
+// The `Name <email>` identity new commits and tags are recorded with. Without
+// user.name the simulator falls back to `User`, the way git guesses one from
+// the login name.
+const getIdentity = (state: GitState): string => {
+    const name = getConfig(state, 'user.name') || 'User';
+    const email = getConfig(state, 'user.email');
+    return email ? `${name} <${email}>` : name;
+};
 
-        const startPointRef = parts[3];
-        let startCommitId = getHeadCommitId(state);
-        if (startPointRef) {
-            const resolved = resolveRef(state, startPointRef);
-            if (!resolved) return { newState: state, output: `fatal: Not a valid object name: '${startPointRef}'.`, success: false };
-            startCommitId = resolved;
-        }
+const splitIdentity = (identity: string): { name: string; email: string } => {
+    const match = identity.match(/^(.*?)\s*<([^>]*)>$/);
+    return match ? { name: match[1], email: match[2] } : { name: identity, email: '' };
+};
 
-        return {
-            newState: {
-                ...state,
-                branches: [...state.branches, { name: branchName, commitId: startCommitId }],
-            },
-            output: `Created branch '${branchName}'`,
-            success: true,
-        };
+const quoteShellArg = (arg: string): string => /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`;
+
+// Replaces `git <alias> ...` with what alias.<alias> stands for. Aliases
+// cannot shadow built-in commands but may expand to other aliases, and an
+// alias starting with `!` is a shell command line the arguments are appended to.
+const expandAlias = (argv: string[], state: GitState): { argv: string[] } | { line: string } | { error: string } => {
+    let expanded = argv;
+    const seen: string[] = [];
+    while (expanded[0] === 'git' && expanded[1] && !findCommand(expanded[1])) {
+        const name = expanded[1];
+        const value = getConfig(state, `alias.${name}`);
+        if (value === undefined) break;
+        if (seen.includes(name)) {
+            const lines = seen.map((n, i) => `  ${n}${n === name ? ' <==' : i === seen.length - 1 ? ' ==>' : ''}`);
+            return { error: `fatal: alias loop detected: expansion of '${seen[0]}' does not terminate:\n${lines.join('\n')}` };
+        }
+        seen.push(name);
+        if (value.startsWith('!')) return { line: [value.slice(1), ...expanded.slice(2).map(quoteShellArg)].join(' ') };
+        expanded = ['git', ...tokenize(value).tokens.map(t => t.value), ...expanded.slice(2)];
     }
+    return { argv: expanded };
+};
 
+const resolveConflicts = (state: GitState, paths: string[]) => state.conflicts.filter(c => !paths.includes(c.path));
 
-    if (subCmd === 'checkout' || subCmd === 'switch') {
+const unresolvedError = (state: GitState): string | null => {
+    if (state.conflicts.length === 0) return null;
+    return `error: you need to resolve your current index first\n${state.conflicts.map(c => `${c.path}: needs merge`).join('\n')}`;
+};
 
-        if (parts[2] === '-b' || parts[2] === '-c') {
-            const branchName = parts[3];
-            if (!branchName) return { newState: state, output: 'Branch name required', success: false };
-            if (state.branches.find((b) => b.name === branchName)) {
-                return { newState: state, output: `fatal: A branch named '${branchName}' already exists.`, success: false };
-            }
+const nothingToCommit = (state: GitState): string => {
+    if (changedPaths(state.index, state.workingTree).some(p => state.index[p] !== undefined)) {
+        return 'no changes added to commit (use "git add" and/or "git commit -a")';
+    }
+    if (Object.keys(state.workingTree).some(p => state.index[p] === undefined)) {
+        return 'nothing added to commit but untracked files present (use "git add" to track)';
+    }
+    return 'nothing to commit, working tree clean';
+};
 
-            const currentHeadId = getHeadCommitId(state);
-            const newBranch = { name: branchName, commitId: currentHeadId };
+const findMergeBase = (state: GitState, a: string, b: string): string | null => {
+    const queue = [b];
+    const visited = new Set<string>();
+    while (queue.length > 0) {
+        const curr = queue.shift()!;
+        if (visited.has(curr)) continue;
+        visited.add(curr);
+        if (isAncestor(state, curr, a)) return curr;
+        const commit = state.commits.find(c => c.id === curr);
+        if (commit) queue.push(...getParentIds(commit));
+    }
+    return null;
+};
 
-            return {
-                newState: {
-                    ...state,
-                    branches: [...state.branches, newBranch],
-                    head: { type: 'branch', ref: branchName },
-                },
-                output: `Switched to a new branch '${branchName}'`,
-                success: true,
-            };
-        } else {
-            const target = parts[2];
-            if (!target) return { newState: state, output: 'Target required', success: false };
+// Merges each commit into the tree of `headId` in turn, the way the octopus
+// strategy does, and stops at the first one that conflicts. `label` names the
+// commit merged last.
+const mergeEach = (state: GitState, headId: string, sources: { id: string; label: string }[]) => {
+    let result = { tree: getCommitTree(state, headId), conflicts: [] as MergeConflict[], autoMerged: [] as string[], label: '' };
+    for (const { id, label } of sources) {
+        const merged = mergeTrees(getCommitTree(state, findMergeBase(state, headId, id)), result.tree, getCommitTree(state, id), { ours: 'HEAD', theirs: label });
+        result = { ...merged, autoMerged: [...result.autoMerged, ...merged.autoMerged], label };
+        if (merged.conflicts.length > 0) break;
+    }
+    return result;
+};
 
-            const branch = state.branches.find((b) => b.name === target);
-            if (branch) {
-                return {
-                    newState: { ...state, head: { type: 'branch', ref: branch.name } },
-                    output: `Switched to branch '${target}'`,
-                    success: true,
-                };
-            }
+// Full ref name → commit for every branch, tag and remote-tracking branch
+const listRefs = (state: GitState): Record<string, string> => Object.fromEntries([
+    ...state.branches.map(b => [`refs/heads/${b.name}`, b.commitId]),
+    ...state.tags.map(t => [`refs/tags/${t.name}`, t.commitId]),
+    ...state.remoteBranches.map(b => [`refs/remotes/${b.name}`, b.commitId])
+]);
+
+const changedRefs = (before: Record<string, string>, after: Record<string, string>) =>
+    Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+        .filter(ref => before[ref] !== after[ref])
+        .map(ref => ({ ref, from: before[ref] ?? null, to: after[ref] ?? null }));
+
+// The events that comparing the repository before and after a command
+// reveals: new commits, moved refs, HEAD attaching or detaching, new
+// conflicts and refs a push changed on a remote. Commits downloaded from a
+// remote were not created here; the remote-tracking refs they moved report them.
+const diffEvents = (before: GitState, after: GitState): GitEvent[] => {
+    const known = new Set([
+        ...before.commits.map(c => c.id),
+        ...Object.values(after.remotes).flatMap(r => r.commits.map(c => c.id))
+    ]);
+    const events: GitEvent[] = after.commits.filter(c => !known.has(c.id)).map(c => ({
+        type: 'commit-created',
+        commitId: c.id,
+        parents: getParentIds(c)
+    }));
+
+    const oldHeadId = getHeadCommitId(before);
+    const newHeadId = getHeadCommitId(after);
+    if (oldHeadId !== newHeadId) events.push({ type: 'ref-moved', ref: 'HEAD', from: oldHeadId, to: newHeadId });
+    if (after.head.type === 'commit' && before.head.type === 'branch') events.push({ type: 'head-detached', commitId: newHeadId });
+    if (after.head.type === 'branch' && (before.head.type === 'commit' || before.head.ref !== after.head.ref)) {
+        events.push({ type: 'head-attached', branch: after.head.ref });
+    }
+    events.push(...changedRefs(listRefs(before), listRefs(after)).map(move => ({ type: 'ref-moved' as const, ...move })));
+
+    const raised = after.conflicts.filter(c => !before.conflicts.some(b => b.path === c.path)).map(c => c.path);
+    if (raised.length > 0) events.push({ type: 'conflict-raised', paths: raised });
+
+    Object.entries(after.remotes).filter(([name]) => before.remotes[name]).forEach(([name, remote]) => {
+        const remoteRefs = (r: Remote) => Object.fromEntries([
+            ...r.branches.map(b => [`refs/heads/${b.name}`, b.commitId]),
+            ...r.tags.map(t => [`refs/tags/${t.name}`, t.commitId])
+        ]);
+        events.push(...changedRefs(remoteRefs(before.remotes[name]), remoteRefs(remote)).map(move => ({ type: 'remote-updated' as const, remote: name, ...move })));
+    });
+    return events;
+};
 
-            const commitId = resolveRef(state, target);
-            if (commitId) {
-                return {
-                    newState: { ...state, head: { type: 'commit', ref: commitId } },
-                    output: `Note: switching to '${target}'. You are in 'detached HEAD' state.`,
-                    success: true
-                };
-            }
+const withEvents = (before: GitState, result: CommandResult): CommandResult => ({
+    ...result,
+    events: [...diffEvents(before, result.newState), ...(result.events ?? [])]
+});
+
+// Appends reflog entries for HEAD and every branch that moved between
+// `before` and `after`. HEAD is also logged when it only switched branches,
+// and deleted branches lose their reflog like they do in git.
+const recordRefMoves = (before: GitState, after: GitState, message: string, branchMessage = message): GitState => {
+    const reflogs = { ...after.reflogs };
+    const log = (ref: string, oldId: string | null, newId: string, entryMessage: string) => {
+        reflogs[ref] = [{ oldId, newId, message: entryMessage, timestamp: after.clock }, ...(reflogs[ref] ?? [])];
+    };
+
+    const oldHeadId = getHeadCommitId(before);
+    const newHeadId = getHeadCommitId(after);
+    if (oldHeadId !== newHeadId || before.head.type !== after.head.type || before.head.ref !== after.head.ref) {
+        log('HEAD', oldHeadId, newHeadId, message);
+    }
+    after.branches.forEach(b => {
+        const old = before.branches.find(x => x.name === b.name);
+        if (old?.commitId !== b.commitId) log(b.name, old?.commitId ?? null, b.commitId, branchMessage);
+    });
+    before.branches
+        .filter(b => !after.branches.some(x => x.name === b.name))
+        .forEach(b => delete reflogs[b.name]);
+    return { ...after, reflogs };
+};
 
-            return { newState: state, output: `error: pathspec '${target}' did not match any file(s) known to git`, success: false };
-        }
+// The reflog message git would write for a command that moved refs.
+const describeRefMove = (parts: string[], before: GitState, after: GitState, output: string): { message: string; branchMessage?: string } => {
+    const subCmd = parts[1];
+    const { positional: args, flags } = parseArgs(parts.slice(2), valueOptionsOf(findCommand(subCmd)));
+    const head = after.commits.find(c => c.id === getHeadCommitId(after));
+    const subject = subjectOf(head?.message ?? '');
+    const strategy = output.includes('Fast-forward') ? 'Fast-forward' : `Merge made by the 'ort' strategy.`;
+
+    if (subCmd === 'commit' || (subCmd === 'merge' && flags.has('--continue'))) {
+        const kind = flags.has('--amend') ? ' (amend)' : head?.secondParentId ? ' (merge)' : !head?.parentId ? ' (initial)' : '';
+        return { message: `commit${kind}: ${subject}` };
+    }
+    if (subCmd === 'checkout' || subCmd === 'switch') {
+        const from = before.head.ref;
+        const to = after.head.type === 'branch' ? after.head.ref : args[args.length - 1] ?? after.head.ref;
+        const startPoint = ['-b', '-c', '--create'].some(f => flags.has(f)) ? args[0] : getUpstreamName(after, to);
+        return { message: `checkout: moving from ${from} to ${to}`, branchMessage: `branch: Created from ${startPoint ?? 'HEAD'}` };
+    }
+    if (subCmd === 'branch') {
+        const reset = before.branches.some(b => b.name === args[0]);
+        return { message: `branch: ${reset ? 'Reset to' : 'Created from'} ${args[1] ?? 'HEAD'}` };
     }
+    if (subCmd === 'merge') return { message: `merge ${args[0]}: ${strategy}` };
+    if (subCmd === 'pull') return { message: `pull: ${strategy}` };
+    if (subCmd === 'reset') return { message: `reset: moving to ${args[0] ?? 'HEAD'}` };
+    if (subCmd === 'revert' || subCmd === 'cherry-pick') return { message: `${subCmd}: ${subject}` };
+    if (subCmd === 'rebase' && before.rebase?.branch) return { message: `rebase (abort): returning to refs/heads/${before.rebase.branch}` };
+    return { message: `${subCmd}: moving to ${getHeadCommitId(after)}` };
+};
 
+// Orders commits so each comes after its parents, following first parents
+// before the side branches merged into them.
+const sortParentsFirst = (state: GitState, ids: Set<string>, tipId: string): Commit[] => {
+    const sorted: Commit[] = [];
+    const visited = new Set<string>();
+    const visit = (id: string | null) => {
+        if (!id || visited.has(id) || !ids.has(id)) return;
+        visited.add(id);
+        const commit = state.commits.find(c => c.id === id)!;
+        getParentIds(commit).forEach(visit);
+        sorted.push(commit);
+    };
+    visit(tipId);
+    return sorted;
+};
 
-    if (subCmd === 'merge') {
-        const sourceName = parts[2];
-        if (!sourceName) return { newState: state, output: 'Merge source required', success: false };
+// Where a parent of a replayed commit ends up. Replayed commits map to their
+// copy and dropped or skipped ones to wherever their own first parent went.
+// Below the rebased range a first parent becomes the new base, while the other
+// parents of a merge stay where they are.
+const replayedParent = (state: GitState, id: string, first: boolean): string => {
+    const { rewritten, upstreamId, ontoId } = state.rebase!;
+    if (rewritten[id]) return rewritten[id];
+    if (isAncestor(state, id, upstreamId)) return first ? ontoId : id;
+    const parentId = state.commits.find(c => c.id === id)?.parentId;
+    return parentId ? replayedParent(state, parentId, true) : ontoId;
+};
 
-        const sourceCommitId = resolveRef(state, sourceName);
-        if (!sourceCommitId) return { newState: state, output: `Merge source '${sourceName}' not found`, success: false };
+// Records a replayed todo item as a commit on the detached HEAD. Squash and
+// fixup fold the change into the commit before it instead.
+const commitRebaseItem = (state: GitState, item: RebaseTodoItem, tree: FileTree): GitState => {
+    const rebase = state.rebase!;
+    const headId = getHeadCommitId(state);
+    const head = state.commits.find(c => c.id === headId);
+    const original = state.commits.find(c => c.id === item.commitId);
+    const folding = item.action === 'squash' || item.action === 'fixup';
+    const mergedIds = folding ? getParentIds(head!).slice(1)
+        : rebase.rebaseMerges && original ? getParentIds(original).slice(1).map(p => replayedParent(state, p, false)) : [];
+    const newCommit = createCommit({
+        message: item.action === 'squash' ? `${head?.message}\n\n${item.message}` : folding ? head?.message ?? item.message : item.message,
+        parentId: folding ? head?.parentId ?? null : headId,
+        secondParentId: mergedIds[0] ?? null,
+        ...(mergedIds.length > 1 ? { otherParentIds: mergedIds.slice(1) } : {}),
+        timestamp: getNextTimestamp(state),
+        author: original?.author ?? getIdentity(state),
+        tree
+    });
+    // A squash also replaces whatever was replayed as the commit it folds into
+    const rewritten = Object.fromEntries(Object.entries(rebase.rewritten).map(([from, to]) => [from, folding && to === headId ? newCommit.id : to]));
+    return recordRefMoves(state, {
+        ...state,
+        commits: [...state.commits, newCommit],
+        head: { type: 'commit', ref: newCommit.id },
+        workingTree: applyTreeChange(state.workingTree, state.index, tree),
+        index: tree,
+        conflicts: [],
+        rebase: { ...rebase, rewritten: { ...rewritten, [item.commitId]: newCommit.id } }
+    }, `rebase (${item.action}): ${subjectOf(newCommit.message)}`);
+};
 
-        if (state.head.type !== 'branch') {
-            return { newState: state, output: `You must be on a branch to merge`, success: false };
+// Detaches HEAD at the new base so the todo list can be replayed on top of it.
+const checkoutRebaseOnto = (state: GitState): GitState => {
+    const ontoId = state.rebase!.ontoId;
+    const ontoTree = getCommitTree(state, ontoId);
+    return recordRefMoves(state, {
+        ...state,
+        head: { type: 'commit', ref: ontoId },
+        workingTree: applyTreeChange(state.workingTree, state.index, ontoTree),
+        index: ontoTree
+    }, `rebase (start): checkout ${ontoId.substring(0, 7)}`);
+};
+
+const finishRebase = (state: GitState): CommandResult => {
+    const { branch } = state.rebase!;
+    if (!branch) return { newState: { ...state, rebase: null }, output: 'Successfully rebased and updated detached HEAD.', success: true };
+    const headId = getHeadCommitId(state);
+    const finished: GitState = {
+        ...state,
+        branches: state.branches.map(b => b.name === branch ? { ...b, commitId: headId } : b),
+        head: { type: 'branch', ref: branch },
+        rebase: null
+    };
+    return {
+        newState: recordRefMoves(
+            state,
+            finished,
+            `rebase (finish): returning to refs/heads/${branch}`,
+            `rebase (finish): refs/heads/${branch} onto ${state.rebase!.ontoId}`
+        ),
+        output: `Successfully rebased and updated refs/heads/${branch}.`,
+        success: true
+    };
+};
+
+// Applies the next todo item. The rebase is left with `stopped` set when the
+// user has to step in (an `edit` or a conflict) and is cleared once the todo
+// list runs out, which also moves the branch to the rewritten history.
+const applyNextTodoItem = (state: GitState): CommandResult => {
+    const rebase = state.rebase;
+    if (!rebase) return fail(state, gitError('no-operation', 'fatal: No rebase in progress?'));
+    if (rebase.todo.length === 0) return finishRebase(state);
+
+    const [item, ...todo] = rebase.todo;
+    let progressed: GitState = { ...state, rebase: { ...rebase, todo, done: [...rebase.done, item] } };
+    const commit = state.commits.find(c => c.id === item.commitId);
+    if (item.action === 'drop' || !commit) return { newState: progressed, output: '', success: true };
+
+    // With --rebase-merges every commit goes back on top of its own replayed
+    // parent, the way git's todo list resets to a label before each branch
+    const headId = rebase.rebaseMerges ? (commit.parentId ? replayedParent(state, commit.parentId, true) : rebase.ontoId) : getHeadCommitId(state);
+    if (headId !== getHeadCommitId(state)) {
+        const parentTree = getCommitTree(state, headId);
+        progressed = recordRefMoves(progressed, {
+            ...progressed,
+            head: { type: 'commit', ref: headId },
+            workingTree: applyTreeChange(state.workingTree, state.index, parentTree),
+            index: parentTree
+        }, `rebase (reset): ${headId.substring(0, 7)}`);
+    }
+    const mergedIds = rebase.rebaseMerges ? getParentIds(commit).slice(1).map(p => replayedParent(state, p, false)) : [];
+    const summary = `${commit.id.substring(0, 7)}... ${subjectOf(commit.message)}`;
+
+    // Nothing underneath the commit changed, so it is reused rather than copied
+    if (item.action === 'pick' && commit.parentId === headId && getParentIds(commit).slice(1).join() === mergedIds.join()) {
+        const reused: GitState = {
+            ...progressed,
+            head: { type: 'commit', ref: commit.id },
+            workingTree: applyTreeChange(progressed.workingTree, progressed.index, commit.tree),
+            index: commit.tree,
+            rebase: { ...progressed.rebase!, rewritten: { ...progressed.rebase!.rewritten, [commit.id]: commit.id } }
+        };
+        return { newState: recordRefMoves(progressed, reused, `rebase (pick): ${subjectOf(commit.message)}`), output: '', success: true };
+    }
+
+    const headTree = getCommitTree(state, headId);
+    const label = `${commit.id.substring(0, 7)} (${subjectOf(commit.message)})`;
+    // A merge is redone between its replayed parents; anything else is
+    // cherry-picked onto HEAD
+    const merged = mergedIds.length > 0
+        ? mergeEach(state, headId, mergedIds.map(id => ({ id, label })))
+        : mergeTrees(getCommitTree(state, commit.parentId), headTree, commit.tree, { ours: 'HEAD', theirs: label });
+    if (merged.conflicts.length > 0) {
+        const conflictPaths = merged.conflicts.map(c => c.path);
+        return fail({
+            ...progressed,
+            workingTree: applyTreeChange(progressed.workingTree, headTree, merged.tree),
+            index: applyTreeChange(progressed.index, headTree, copyPaths(merged.tree, headTree, conflictPaths)),
+            conflicts: merged.conflicts,
+            rebase: { ...progressed.rebase!, stopped: { item, reason: 'conflict' } }
+        }, gitError('conflict', [
+            `error: could not apply ${summary}`,
+            'hint: Resolve all conflicts manually, mark them as resolved with',
+            'hint: "git add/rm <conflicted_files>", then run "git rebase --continue".',
+            'hint: You can instead skip this commit: run "git rebase --skip".',
+            'hint: To abort and get back to the state before "git rebase", run "git rebase --abort".',
+            `Could not apply ${summary}`
+        ].join('\n')), formatConflictReport(merged.conflicts, merged.autoMerged, label).join('\n'));
+    }
+
+    const committed = commitRebaseItem(progressed, item, merged.tree);
+    const rewrittenId = getHeadCommitId(committed);
+    // Squash and fixup also replace the commit they fold into
+    const events: GitEvent[] = [item.commitId, ...(item.action === 'squash' || item.action === 'fixup' ? [headId] : [])]
+        .map(from => ({ type: 'commit-rewritten', from, to: rewrittenId }));
+    if (item.action !== 'edit') return { newState: committed, output: '', success: true, events };
+    return {
+        events,
+        newState: { ...committed, rebase: { ...committed.rebase!, stopped: { item, reason: 'edit' } } },
+        output: `Stopped at ${summary}\nYou can amend the commit now, with\n\n  git commit --amend\n\nOnce you are satisfied with your changes, run\n\n  git rebase --continue`,
+        success: true
+    };
+};
+
+export const stepRebase = (state: GitState): CommandResult => withEvents(state, applyNextTodoItem(state));
+
+// Keeps applying todo items until the rebase finishes or stops for the user.
+const runRebase = (state: GitState): CommandResult => {
+    let current = state;
+    const output: string[] = [];
+    const events: GitEvent[] = [];
+    while (current.rebase && !current.rebase.stopped && !current.rebase.editingTodo) {
+        const result = applyNextTodoItem(current);
+        current = result.newState;
+        if (result.output) output.push(result.output);
+        events.push(...(result.events ?? []));
+        if (!result.success) return { newState: current, output: output.join('\n'), success: false, error: result.error, events };
+    }
+    return { newState: current, output: output.join('\n'), success: true, events };
+};
+
+// Hands the edited todo list back to the engine, the way closing the editor
+// does in git. A fresh rebase checks out its base here; the caller then
+// drives the replay with `stepRebase`.
+export const submitRebaseTodo = (state: GitState, todo: RebaseTodoItem[]): CommandResult => {
+    const rebase = state.rebase;
+    if (!rebase?.editingTodo) return fail(state, gitError('no-operation', 'fatal: No rebase in progress?'));
+
+    const first = [...rebase.done, ...todo].find(i => i.action !== 'drop');
+    if (first && (first.action === 'squash' || first.action === 'fixup')) {
+        return fail(state, gitError('usage', `error: cannot '${first.action}' without a previous commit\nYou can fix this with 'git rebase --edit-todo' and then run 'git rebase --continue'.\nOr you can abort the rebase with 'git rebase --abort'.`));
+    }
+
+    const fresh = rebase.done.length === 0 && !rebase.stopped;
+    const updated: GitState = { ...state, rebase: { ...rebase, todo, editingTodo: false } };
+    return withEvents(state, { newState: fresh ? checkoutRebaseOnto(updated) : updated, output: '', success: true });
+};
+
+
+
+// Runs a whole command line. Like a shell, `;` always runs the next command,
+// `&&` only runs it after a success and `||` only after a failure.
+export const executeGitCommand = (input: string, state: GitState): CommandResult => {
+    const { commands, error } = parseCommandLine(input);
+    if (error) return fail(state, gitError('syntax', `bash: ${error}`));
+
+    let result: CommandResult = { newState: state, output: '', success: true };
+    const outputs: string[] = [];
+    const events: GitEvent[] = [];
+    for (const { connector, command } of commands) {
+        if ((connector === '&&' && !result.success) || (connector === '||' && result.success)) continue;
+        const started = result.newState;
+        result = runSimpleCommand(command, { ...started, clock: started.clock + COMMAND_DURATION });
+        if (result.output) outputs.push(result.output);
+        events.push(...(result.events ?? []));
+    }
+    return { ...result, output: outputs.join('\n'), events };
+};
+
+const runSimpleCommand = ({ argv: typed, redirect }: SimpleCommand, state: GitState): CommandResult => {
+    const alias = expandAlias(typed, state);
+    if ('error' in alias) return fail(state, gitError('usage', alias.error));
+    if ('line' in alias) {
+        const result = executeGitCommand(alias.line, state);
+        return redirect && result.success ? { ...result, newState: applyRedirect(result.newState, redirect, result.output), output: '' } : result;
+    }
+
+    const { argv } = alias;
+    let result = runGitCommand(argv, state);
+
+    // init and clone start a fresh repository, and commands that log their
+    // own steps (like rebase) have already written their entries
+    if (argv[0] === 'git' && !['init', 'clone'].includes(argv[1]) && result.newState.reflogs === state.reflogs) {
+        const { message, branchMessage } = describeRefMove(argv, state, result.newState, result.output);
+        result = { ...result, newState: recordRefMoves(state, result.newState, message, branchMessage) };
+    }
+
+    if (redirect && result.success) {
+        result = { ...result, newState: applyRedirect(result.newState, redirect, result.output), output: '' };
+    }
+    return withEvents(state, result);
+};
+
+const runGitCommand = (
+    parts: string[],
+    state: GitState
+): CommandResult => {
+    const [cmd, subCmd] = parts;
+
+    if (SHELL_COMMANDS.includes(cmd)) {
+        return executeShellCommand(parts, state);
+    }
+
+    if (cmd !== 'git') {
+        return fail(state, gitError('command-not-found', `${cmd}: command not found`));
+    }
+
+    if (!subCmd) return fail(state, gitError('usage', formatCommandList(COMMANDS), 1));
+    const command = findCommand(subCmd);
+    if (!command) return fail(state, gitError('command-not-found', `git: '${subCmd}' is not a git command. See 'git help'.`, 1));
+
+    const opts = parseArgs(parts.slice(2), valueOptionsOf(command));
+    // `--help` opens the manual in git; here it shows the same usage as `-h`
+    if (opts.flags.has('-h') || opts.flags.has('--help')) return { newState: state, output: formatCommandHelp(command), success: true };
+    const unknown = findUnknownOption(command, opts.flags);
+    if (unknown) return fail(state, gitError('usage', `error: ${unknown}\n${formatCommandHelp(command)}`, 129));
+    const has = (...flags: string[]) => flags.some(f => opts.flags.has(f));
+    return command.run({ state, parts, opts, positional: opts.positional, has });
+};
+
+const initCommand: GitCommand = {
+    name: 'init',
+    summary: 'Create an empty Git repository or reinitialize an existing one',
+    usage: ['git init [-b <branch-name>]'],
+    options: [
+        { flags: ['-b', '--initial-branch'], arg: '<name>', key: 'initialBranch', description: 'override the name of the initial branch' }
+    ],
+    category: 'Essentials',
+    examples: [
+        { cmd: 'git init', desc: 'Initialize a new repository' },
+        { cmd: 'git init -b main', desc: 'Initialize with a chosen branch name (or set init.defaultBranch)' }
+    ],
+    run: ({ state, opts }) => {
+        const configured = getConfig(state, 'init.defaultBranch');
+        const branch = opts.values.initialBranch?.at(-1) ?? configured ?? 'master';
+        if (!isValidRefName(branch)) return fail(state, gitError('invalid-name', `fatal: invalid initial branch name: '${branch}'`));
+
+        const initial = createCommit({ ...INITIAL_STATE.commits[0], timestamp: state.clock, author: getIdentity(state) });
+        const reflog: ReflogEntry[] = [{ oldId: null, newId: initial.id, message: 'commit (initial): Initial commit', timestamp: state.clock }];
+        const advice = opts.values.initialBranch || configured !== undefined ? [] : [
+            `hint: Using '${branch}' as the name for the initial branch. This default branch name`,
+            'hint: is subject to change. To configure the initial branch name to use in all',
+            'hint: of your new repositories, which will suppress this warning, call:',
+            'hint:',
+            'hint: \tgit config --global init.defaultBranch <name>',
+            'hint:',
+            "hint: Names commonly chosen instead of 'master' are 'main', 'trunk' and",
+            "hint: 'development'. The just-created branch can be renamed via this command:",
+            'hint:',
+            'hint: \tgit branch -m <name>'
+        ];
+        return {
+            newState: {
+                ...INITIAL_STATE,
+                commits: [initial],
+                branches: [{ name: branch, commitId: initial.id }],
+                head: { type: 'branch', ref: branch },
+                reflogs: { HEAD: reflog, [branch]: reflog },
+                config: { ...state.config, local: {} },
+                clock: state.clock
+            },
+            output: [...advice, `Initialized empty Git repository in /project/.git/`].join('\n'),
+            success: true
+        }
+    }
+};
+
+const configCommand: GitCommand = {
+    name: 'config',
+    summary: 'Get and set repository or global options',
+    usage: ['git config [<file-option>] <name> [<value>]', 'git config [<file-option>] --unset <name>', 'git config [<file-option>] [--show-origin] [--show-scope] -l | --list'],
+    options: [
+        { flags: ['--system'], description: 'use system config file' },
+        { flags: ['--global'], description: 'use global config file' },
+        { flags: ['--local'], description: 'use repository config file' },
+        { flags: ['--get'], description: 'get value: name' },
+        { flags: ['--unset'], description: 'remove a variable: name' },
+        { flags: ['-l', '--list'], description: 'list all' },
+        { flags: ['--show-origin'], description: 'show the config file each setting comes from' },
+        { flags: ['--show-scope'], description: 'show the scope of each setting (system, global, local)' }
+    ],
+    category: 'Essentials',
+    examples: [
+        { cmd: 'git config --global user.name "Name"', desc: 'Set the author of your commits (also user.email)' },
+        { cmd: 'git config --list --show-scope', desc: 'Show every setting and where it comes from' },
+        { cmd: 'git config --global alias.co checkout', desc: 'Make git co a shortcut for git checkout' }
+    ],
+    run: ({ state, positional, has }) => {
+        const scopes = CONFIG_SCOPES.filter(scope => has(`--${scope}`));
+        if (scopes.length > 1) return fail(state, gitError('usage', 'error: only one config file at a time'));
+        const [scope] = scopes;
+        // What --show-scope and --show-origin print before a value
+        const sourceOf = (s: ConfigScope) => `${has('--show-scope') ? `${s}\t` : ''}${has('--show-origin') ? `file:${CONFIG_FILES[s]}\t` : ''}`;
+
+        if (has('-l', '--list')) {
+            const fileMissing = scope && scope !== 'local' && Object.keys(state.config[scope]).length === 0;
+            if (fileMissing) {
+                return fail(state, gitError('not-found', `fatal: unable to read config file '${CONFIG_FILES[scope]}': No such file or directory`));
+            }
+            const lines = (scope ? [scope] : CONFIG_SCOPES).flatMap(s => Object.entries(state.config[s]).map(([key, value]) => `${sourceOf(s)}${key}=${value}`));
+            return { newState: state, output: lines.join('\n'), success: true };
+        }
+
+        const unset = has('--unset');
+        const [rawKey, value, ...extra] = positional;
+        if (!rawKey) return fail(state, gitError('usage', 'usage: git config [<options>]'));
+        if (extra.length > 0 || ((unset || has('--get')) && value !== undefined)) {
+            return fail(state, gitError('usage', `error: wrong number of arguments, should be ${unset || has('--get') ? '1' : 'from 1 to 2'}`));
+        }
+        if (!/^[a-z][a-z0-9-]*(\..+)?\.[a-z][a-z0-9-]*$/i.test(rawKey)) {
+            return fail(state, gitError('invalid-name', rawKey.includes('.') ? `error: invalid key: ${rawKey}` : `error: key does not contain a section: ${rawKey}`));
+        }
+        const key = normalizeConfigKey(rawKey);
+
+        if (unset || value !== undefined) {
+            // Writes go to the repository's own config unless a scope is given
+            const target = scope ?? 'local';
+            const entries = { ...state.config[target] };
+            if (unset) {
+                // Unsetting a missing key exits with 5 in git, quietly
+                if (entries[key] === undefined) return fail(state, gitError('not-found', '', 5));
+                delete entries[key];
+            } else {
+                entries[key] = value;
+            }
+            return { newState: { ...state, config: { ...state.config, [target]: entries } }, output: '', success: true };
+        }
+        // The most specific scope that sets the key wins
+        const from = scope ?? [...CONFIG_SCOPES].reverse().find(s => state.config[s][key] !== undefined);
+        const current = from ? state.config[from][key] : undefined;
+        if (!from || current === undefined) return fail(state, gitError('not-found', ''));
+        return { newState: state, output: `${sourceOf(from)}${current}`, success: true };
+    }
+};
+
+const addCommand: GitCommand = {
+    name: 'add',
+    summary: 'Add file contents to the index',
+    usage: ['git add [<options>] [--] <pathspec>...'],
+    options: [
+        { flags: ['-A', '--all'], description: 'add changes from all tracked and untracked files' },
+        { flags: ['-u', '--update'], description: 'update tracked files' }
+    ],
+    category: 'Essentials',
+    examples: [
+        { cmd: 'git add .', desc: 'Stage all changes' }
+    ],
+    run: ({ state, opts, positional, has }) => {
+        const specs = [...positional, ...opts.paths];
+        const all = has('-A', '--all');
+        const trackedOnly = has('-u', '--update');
+        if (specs.length === 0 && !all && !trackedOnly) {
+            return fail(state, gitError('usage', `Nothing specified, nothing added.\nhint: Maybe you wanted to say 'git add .'?`));
+        }
+
+        const { paths, unmatched } = expandPathspecs(
+            specs.length > 0 ? specs : ['.'],
+            state.index,
+            ...(trackedOnly ? [] : [state.workingTree])
+        );
+        if (unmatched) return fail(state, gitError('pathspec', `fatal: pathspec '${unmatched}' did not match any files`));
+
+        return { newState: { ...state, index: copyPaths(state.index, state.workingTree, paths), conflicts: resolveConflicts(state, paths) }, output: '', success: true };
+    }
+};
+
+const restoreCommand: GitCommand = {
+    name: 'restore',
+    summary: 'Restore working tree files',
+    usage: ['git restore [--staged] [--worktree] [--] <pathspec>...'],
+    options: [
+        { flags: ['-S', '--staged'], description: 'restore the index' },
+        { flags: ['-W', '--worktree'], description: 'restore the working tree (default)' }
+    ],
+    category: 'Essentials',
+    examples: [
+        { cmd: 'git restore --staged <file>', desc: 'Unstage a file' }
+    ],
+    run: ({ state, opts, positional, has }) => {
+        const specs = [...positional, ...opts.paths];
+        const staged = has('--staged', '-S');
+        const worktree = has('--worktree', '-W') || !staged;
+        if (specs.length === 0) return fail(state, gitError('usage', 'fatal: you must specify path(s) to restore'));
+
+        const headTree = getCommitTree(state, getHeadCommitId(state));
+        const { paths, unmatched } = expandPathspecs(specs, state.index, ...(staged ? [headTree] : []));
+        if (unmatched) return fail(state, gitError('pathspec', `error: pathspec '${unmatched}' did not match any file(s) known to git`));
+
+        const index = staged ? copyPaths(state.index, headTree, paths) : state.index;
+        const workingTree = worktree ? copyPaths(state.workingTree, staged ? headTree : index, paths) : state.workingTree;
+        return { newState: { ...state, index, workingTree }, output: '', success: true };
+    }
+};
+
+const rmCommand: GitCommand = {
+    name: 'rm',
+    summary: 'Remove files from the working tree and from the index',
+    usage: ['git rm [-f] [--cached] [-r] [--] <pathspec>...'],
+    options: [
+        { flags: ['-f', '--force'], description: 'override the up-to-date check' },
+        { flags: ['--cached'], description: 'only remove from the index' },
+        { flags: ['-r'], description: 'allow recursive removal' }
+    ],
+    category: 'Essentials',
+    examples: [
+        { cmd: 'git rm --cached <file>', desc: 'Stop tracking a file but keep it' }
+    ],
+    run: ({ state, opts, positional, has }) => {
+        const specs = [...positional, ...opts.paths];
+        const cached = has('--cached');
+        const force = has('-f', '--force');
+        const recursive = has('-r');
+        if (specs.length === 0) return fail(state, gitError('usage', 'usage: git rm [<options>] [--] <file>...'));
+
+        const { paths, unmatched } = expandPathspecs(specs, state.index);
+        if (unmatched) return fail(state, gitError('pathspec', `fatal: pathspec '${unmatched}' did not match any files`));
+
+        const directory = specs.find(spec => !paths.includes(spec) && !recursive && paths.some(p => p.startsWith(`${spec.replace(/\/$/, '')}/`)));
+        if (directory) return fail(state, gitError('usage', `fatal: not removing '${directory}' recursively without -r`));
+
+        const headTree = getCommitTree(state, getHeadCommitId(state));
+        const modified = paths.filter(p =>
+            cached
+                ? state.index[p] !== headTree[p] && state.index[p] !== state.workingTree[p]
+                : state.index[p] !== headTree[p] || (state.workingTree[p] !== undefined && state.workingTree[p] !== state.index[p])
+        );
+        if (modified.length > 0 && !force) {
+            return fail(state, gitError('would-overwrite', `error: the following file${modified.length > 1 ? 's have' : ' has'} ${cached ? 'staged content different from both the\nfile and the HEAD' : 'local modifications'}:\n${modified.map(p => `    ${p}`).join('\n')}\n(use --cached to keep the file, or -f to force removal)`));
+        }
+
+        const index = copyPaths(state.index, {}, paths);
+        const workingTree = cached ? state.workingTree : copyPaths(state.workingTree, {}, paths);
+        return { newState: { ...state, index, workingTree, conflicts: resolveConflicts(state, paths) }, output: paths.map(p => `rm '${p}'`).join('\n'), success: true };
+    }
+};
+
+const commitCommand: GitCommand = {
+    name: 'commit',
+    summary: 'Record changes to the repository',
+    usage: ['git commit [-a] [--amend] [-m <msg>]'],
+    options: [
+        { flags: ['-a', '--all'], description: 'commit all changed files' },
+        { flags: ['-m', '--message'], arg: '<message>', key: 'message', description: 'commit message' },
+        { flags: ['--amend'], description: 'amend previous commit' },
+        { flags: ['--no-edit'], description: 'use the selected commit message without launching an editor' }
+    ],
+    category: 'Essentials',
+    examples: [
+        { cmd: 'git commit -m "msg"', desc: 'Commit staged changes' },
+        { cmd: 'git commit --amend', desc: 'Change last commit message', category: 'Advanced' }
+    ],
+    run: ({ state, opts, has }) => {
+        // Each -m becomes its own paragraph, as in git
+        const messageArg = opts.values.message?.join('\n\n');
+        if (has('-m', '--message') && messageArg === undefined) {
+            return fail(state, gitError('usage', "error: switch `m' requires a value"));
+        }
+
+        if (has('-a', '--all')) {
+            const tracked = Object.keys(state.index);
+            state = { ...state, index: copyPaths(state.index, state.workingTree, tracked) };
+        }
+
+
+        if (has('--amend')) {
+            const headId = getHeadCommitId(state);
+            const oldCommit = state.commits.find(c => c.id === headId);
+            if (!oldCommit) return fail(state, gitError('nothing-to-commit', 'fatal: You have nothing to amend.'));
+
+            const newMessage = messageArg ?? oldCommit.message;
+
+            // The amended commit replaces HEAD; the original stays reachable through the reflog
+            const amended = createCommit({ ...oldCommit, message: newMessage, timestamp: getNextTimestamp(state), tree: state.index });
+            const onBranch = state.head.type === 'branch';
+            return {
+                newState: {
+                    ...state,
+                    commits: [...state.commits, amended],
+                    branches: onBranch ? state.branches.map(b => b.name === state.head.ref ? { ...b, commitId: amended.id } : b) : state.branches,
+                    head: onBranch ? state.head : { type: 'commit', ref: amended.id }
+                },
+                output: `[${onBranch ? state.head.ref : 'detached HEAD'}] ${amended.id} ${newMessage}`,
+                success: true,
+                events: [{ type: 'commit-rewritten', from: oldCommit.id, to: amended.id }]
+            }
+        }
+
+        if (state.conflicts.length > 0) {
+            return fail(state, gitError('unmerged-files', `error: Committing is not possible because you have unmerged files.\nhint: Fix them up in the work tree, and then use 'git add/rm <file>'\nhint: as appropriate to mark resolution and make a commit.\nfatal: Exiting because of an unresolved conflict.`));
+        }
+
+        const message = messageArg ?? state.merge?.message ?? state.pick?.message ?? state.squashMessage ?? `Update ${changedPaths(getCommitTree(state, getHeadCommitId(state)), state.index).join(', ')}`;
+
+        const currentHeadId = getHeadCommitId(state);
+        if (!state.merge && treesEqual(state.index, getCommitTree(state, currentHeadId))) {
+            return fail(state, gitError('nothing-to-commit', nothingToCommit(state)));
+        }
+
+        const newCommit = createCommit({
+            message,
+            parentId: currentHeadId,
+            secondParentId: state.merge ? state.merge.sourceId : null,
+            timestamp: getNextTimestamp(state),
+            author: state.pick?.author ?? getIdentity(state),
+            tree: state.index,
+        });
+
+        return {
+            newState: {
+                ...state,
+                commits: [...state.commits, newCommit],
+                ...moveHead(state, newCommit.id),
+                merge: null,
+                pick: null,
+                squashMessage: null,
+            },
+            output: currentHeadId
+                ? `[${state.head.type === 'branch' ? state.head.ref : 'detached HEAD'}] ${newCommit.id} ${subjectOf(message)}`
+                : `[${state.head.ref} (root-commit) ${newCommit.id}] ${subjectOf(message)}`,
+            success: true,
+        };
+    }
+};
+
+const statusCommand: GitCommand = {
+    name: 'status',
+    summary: 'Show the working tree status',
+    usage: ['git status [<options>]'],
+    options: [
+        { flags: ['-s', '--short'], description: 'show status concisely' },
+        { flags: ['-b', '--branch'], description: 'show branch information' },
+        { flags: ['--porcelain'], description: 'machine-readable output' }
+    ],
+    category: 'Essentials',
+    examples: [
+        { cmd: 'git status', desc: 'Show modified files' }
+    ],
+    run: ({ state, has }) => {
+        const short = has('-s', '--short', '--porcelain');
+        const showBranch = has('-b', '--branch');
+        return { newState: state, output: formatStatus(state, short ? 'short' : 'long', showBranch), success: true };
+    }
+};
+
+const logCommand: GitCommand = {
+    name: 'log',
+    summary: 'Show commit logs',
+    usage: ['git log [<options>] [<revision-range>]'],
+    options: [
+        { flags: ['--oneline'], description: 'show each commit on one line' },
+        { flags: ['--graph'], description: 'draw the commit graph next to the log' },
+        { flags: ['--all'], description: 'show commits reachable from any ref' },
+        { flags: ['--first-parent'], description: 'follow only the first parent of merge commits' },
+        { flags: ['-n', '--max-count'], arg: '<number>', key: 'maxCount', description: 'limit the number of commits to output' },
+        { flags: ['-<n>'], description: 'same as -n <n>' },
+        { flags: ['--author'], arg: '<pattern>', key: 'author', description: 'limit to commits by a matching author' },
+        { flags: ['--grep'], arg: '<pattern>', key: 'grep', description: 'limit to commits with a matching message' },
+        { flags: ['-i', '--regexp-ignore-case'], description: 'match --author and --grep case-insensitively' },
+        { flags: ['--since', '--after'], arg: '<date>', key: 'since', description: 'show commits more recent than a date' },
+        { flags: ['--until', '--before'], arg: '<date>', key: 'until', description: 'show commits older than a date' },
+        { flags: ['--format', '--pretty'], arg: '<format>', key: 'format', description: 'print each commit with a format string' },
+        { flags: ['--no-decorate'], description: 'do not print ref names' }
+    ],
+    category: 'Essentials',
+    examples: [
+        { cmd: 'git log', desc: 'View commit history' },
+        { cmd: 'git log --oneline --graph --all', desc: 'Draw every branch as an ASCII graph' },
+        { cmd: 'git log main..feature', desc: 'Commits on feature that main lacks' },
+        { cmd: 'git log --format="%h %an %s"', desc: 'Custom log lines (also --author, --grep, --since)' }
+    ],
+    run: ({ state, opts, positional, has }) => {
+        // --all walks from every ref as well as HEAD
+        const revisions = has('--all')
+            ? [...positional, 'HEAD', ...[...state.branches, ...state.remoteBranches, ...state.tags].map(r => r.name)]
+            : positional;
+        const firstParent = has('--first-parent');
+        const { ids, error } = resolveCommitRange(state, revisions, firstParent);
+        if (error) return fail(state, gitError('bad-revision', error));
+
+        const matcher = (key: string, text: (c: Commit) => string): ((c: Commit) => boolean) | string => {
+            const patterns = opts.values[key] ?? [];
+            try {
+                const regexes = patterns.map(p => new RegExp(p, has('-i', '--regexp-ignore-case') ? 'i' : ''));
+                return (c: Commit) => regexes.length === 0 || regexes.some(r => r.test(text(c)));
+            } catch {
+                return `fatal: command line, '${patterns.join(' ')}': Invalid regular expression`;
+            }
+        };
+        const byAuthor = matcher('author', c => c.author);
+        const byMessage = matcher('grep', c => c.message);
+        if (typeof byAuthor === 'string') return fail(state, gitError('usage', byAuthor));
+        if (typeof byMessage === 'string') return fail(state, gitError('usage', byMessage));
+
+        const dateLimit = (key: string): number | null | string => {
+            const value = opts.values[key]?.[0];
+            if (value === undefined) return null;
+            return parseApproxDate(value, state.clock) ?? `fatal: invalid date '${value}'`;
+        };
+        const since = dateLimit('since');
+        const until = dateLimit('until');
+        if (typeof since === 'string') return fail(state, gitError('usage', since));
+        if (typeof until === 'string') return fail(state, gitError('usage', until));
+
+        const walked = orderForLog(state, ids, firstParent);
+        const shown = walked.filter(c => byAuthor(c) && byMessage(c)
+            && (since === null || c.timestamp >= since) && (until === null || c.timestamp <= until));
+
+        const countFlag = Array.from(opts.flags).find(f => /^-\d+$/.test(f));
+        const countValue = opts.values.maxCount?.[0] ?? countFlag?.slice(1);
+        const maxCount = countValue !== undefined ? parseInt(countValue, 10) : Infinity;
+        if (Number.isNaN(maxCount)) return fail(state, gitError('usage', `fatal: '${countValue}': not an integer`));
+
+        const format = has('--oneline') ? 'oneline' : opts.values.format?.[0]?.replace(/^t?format:/, '') ?? 'medium';
+        const decorate = !has('--no-decorate');
+        const entries = shown.slice(0, maxCount).map(c => {
+            const decoration = decorate ? formatDecoration(state, c.id) : '';
+            if (format === 'oneline') return `${c.id.substring(0, 7)}${decoration ? ` (${decoration})` : ''} ${subjectOf(c.message)}`;
+            if (format === 'short') return `commit ${c.id}${decoration ? ` (${decoration})` : ''}\nAuthor: ${c.author}\n\n    ${subjectOf(c.message)}`;
+            if (format === 'medium' || format === 'full') return formatCommitHeader(c, decoration);
+            return formatLogTemplate(state, c, format);
+        });
+        const multiLine = ['short', 'medium', 'full'].includes(format);
+
+        if (!has('--graph')) return { newState: state, output: entries.join(multiLine ? '\n\n' : '\n'), success: true };
+
+        // Lines to commits that were filtered out are redrawn to their nearest
+        // shown ancestors, as git does for --graph
+        const shownIds = new Set(shown.map(c => c.id));
+        const visibleParents = (id: string, seen = new Set<string>()): string[] => {
+            const commit = state.commits.find(c => c.id === id);
+            const parents = (!commit ? [] : firstParent ? [commit.parentId] : getParentIds(commit)).filter((p): p is string => !!p && ids.has(p));
+            return Array.from(new Set(parents.flatMap(p => {
+                if (shownIds.has(p)) return [p];
+                if (seen.has(p)) return [];
+                seen.add(p);
+                return visibleParents(p, seen);
+            })));
+        };
+        const rows = renderGraph(shown.map(c => ({ id: c.id, parents: visibleParents(c.id) })));
+
+        const lines: string[] = [];
+        const prefixed = (graph: string, text: string, width: number) => `${graph.padEnd(width)}${text}`.trimEnd();
+        entries.forEach((entry, i) => {
+            const row = rows[i];
+            const text = entry.split('\n');
+            if (multiLine && i < entries.length - 1) text.push('');
+            const graphLines = [row.commit, ...(row.expansion ? [row.expansion] : [])];
+            text.forEach((line, n) => lines.push(prefixed(graphLines[n] ?? row.padding, line, row.width)));
+            graphLines.slice(text.length).forEach(g => lines.push(g.trimEnd()));
+            if (i < entries.length - 1) row.collapses.forEach(g => lines.push(g));
+        });
+        return { newState: state, output: lines.join('\n'), success: true };
+    }
+};
+
+// How diff and show print the changes
+const DIFF_OUTPUT_OPTIONS: CommandOption[] = [
+    { flags: ['--stat'], description: 'show a diffstat instead of a patch' },
+    { flags: ['--name-only'], description: 'show only the names of changed files' },
+    { flags: ['--name-status'], description: 'show the names and status of changed files' }
+];
+
+const diffCommand: GitCommand = {
+    name: 'diff',
+    summary: 'Show changes between commits, commit and working tree, etc',
+    usage: ['git diff [--staged] [<commit>]', 'git diff <commit> <commit>', 'git diff <commit>..<commit>'],
+    options: [
+        { flags: ['--staged', '--cached'], description: 'compare the index with HEAD' },
+        ...DIFF_OUTPUT_OPTIONS
+    ],
+    category: 'Essentials',
+    examples: [
+        { cmd: 'git diff', desc: 'Show unstaged changes (--staged for staged)' }
+    ],
+    run: ({ state, opts, positional, has }) => {
+        const staged = has('--staged', '--cached');
+        const headTree = getCommitTree(state, getHeadCommitId(state));
+
+        const revs = positional.flatMap(a => {
+            const range = a.match(/^(.*?)(\.\.\.?)(.*)$/);
+            return range ? [range[1] || 'HEAD', range[2] === '...' ? `...${range[3] || 'HEAD'}` : range[3] || 'HEAD'] : [a];
+        });
+        const ids: string[] = [];
+        for (const rev of revs) {
+            const id = resolveRef(state, rev.replace(/^\.\.\./, ''));
+            if (!id) {
+                return fail(state, gitError('bad-revision', revisionError(state, rev.replace(/^\.\.\./, ''), `fatal: ambiguous argument '${rev}': unknown revision or path not in the working tree.`)));
+            }
+            ids.push(id);
+        }
+
+        let oldTree: FileTree;
+        let newTree: FileTree;
+        if (ids.length >= 2) {
+            const symmetric = revs[1].startsWith('...');
+            oldTree = getCommitTree(state, symmetric ? findMergeBase(state, ids[0], ids[1]) : ids[0]);
+            newTree = getCommitTree(state, ids[1]);
+        } else if (staged) {
+            oldTree = ids.length === 1 ? getCommitTree(state, ids[0]) : headTree;
+            newTree = state.index;
+        } else if (ids.length === 1) {
+            oldTree = getCommitTree(state, ids[0]);
+            newTree = copyPaths(state.workingTree, oldTree, Object.keys(state.workingTree).filter(p => state.index[p] === undefined && oldTree[p] === undefined));
+        } else {
+            oldTree = state.index;
+            newTree = copyPaths(state.index, state.workingTree, Object.keys(state.index));
+        }
+
+        return { newState: state, output: formatDiffOutput(opts.flags, oldTree, newTree, opts.paths), success: true };
+    }
+};
+
+const showCommand: GitCommand = {
+    name: 'show',
+    summary: 'Show various types of objects',
+    usage: ['git show [<options>] [<object>]'],
+    options: [
+        { flags: ['-s', '--no-patch'], description: 'suppress diff output' },
+        ...DIFF_OUTPUT_OPTIONS
+    ],
+    category: 'Essentials',
+    examples: [
+        { cmd: 'git show <commit>', desc: 'Show a commit and its diff' }
+    ],
+    run: ({ state, opts, positional, has }) => {
+        const target = positional[0] ?? 'HEAD';
+        const commitId = resolveRef(state, target);
+        const commit = state.commits.find(c => c.id === commitId);
+        if (!commit) {
+            return fail(state, gitError('bad-revision', revisionError(state, target, `fatal: ambiguous argument '${target}': unknown revision or path not in the working tree.`)));
+        }
+
+        // An annotated tag shows its own header before the commit it points at
+        const annotation = state.tags.find(t => t.name === target.replace(/^refs\/tags\//, ''))?.annotation;
+        const tagHeader = annotation
+            ? `tag ${target.replace(/^refs\/tags\//, '')}\nTagger: ${annotation.tagger}\nDate:   ${formatDate(annotation.timestamp)}\n\n${annotation.message}\n\n`
+            : '';
+        const header = `${tagHeader}${formatCommitHeader(commit, formatDecoration(state, commit.id))}`;
+        if (commit.secondParentId || has('-s', '--no-patch')) {
+            return { newState: state, output: header, success: true };
+        }
+        const body = formatDiffOutput(opts.flags, getCommitTree(state, commit.parentId), commit.tree, []);
+        return { newState: state, output: body ? `${header}\n\n${body}` : header, success: true };
+    }
+};
+
+const branchCommand: GitCommand = {
+    name: 'branch',
+    summary: 'List, create, or delete branches',
+    usage: [
+        'git branch [<options>] [-r | -a] [--merged] [--no-merged]',
+        'git branch [<options>] [-f] [--track | --no-track] <branch-name> [<start-point>]',
+        'git branch [<options>] [-r] (-d | -D) <branch-name>...',
+        'git branch [<options>] (-m | -M) [<old-branch>] <new-branch>'
+    ],
+    options: [
+        { flags: ['-v', '--verbose'], description: 'show hash and subject, give twice for upstream branch' },
+        { flags: ['-a', '--all'], description: 'list both remote-tracking and local branches' },
+        { flags: ['-r', '--remotes'], description: 'act on remote-tracking branches' },
+        { flags: ['-l', '--list'], description: 'list branch names' },
+        { flags: ['-d', '--delete'], description: 'delete fully merged branch' },
+        { flags: ['-D'], description: 'delete branch (even if not merged)' },
+        { flags: ['-m', '--move'], description: 'move/rename a branch and its reflog' },
+        { flags: ['-M'], description: 'move/rename a branch, even if target exists' },
+        { flags: ['-f', '--force'], description: 'force creation, move/rename, deletion' },
+        { flags: ['-u', '--set-upstream-to'], arg: '<upstream>', key: 'upstream', description: 'change the upstream info' },
+        { flags: ['--unset-upstream'], description: 'unset the upstream info' },
+        { flags: ['--no-track'], description: 'do not set up upstream configuration' },
+        { flags: ['--contains'], arg: '<commit>', key: 'contains', description: 'print only branches that contain the commit' },
+        { flags: ['--no-contains'], arg: '<commit>', key: 'noContains', description: "print only branches that don't contain the commit" },
+        { flags: ['--merged'], arg: '<commit>', key: 'merged', description: 'print only branches that are merged' },
+        { flags: ['--no-merged'], arg: '<commit>', key: 'noMerged', description: 'print only branches that are not merged' }
+    ],
+    category: 'Branching',
+    examples: [
+        { cmd: 'git branch <name>', desc: 'Create a new branch' },
+        { cmd: 'git branch -a', desc: 'List local and remote-tracking branches' },
+        { cmd: 'git branch -d <name>', desc: 'Delete a merged branch (-D forces)' },
+        { cmd: 'git branch -m <old> <new>', desc: 'Rename a branch' },
+        { cmd: 'git branch --merged', desc: 'List branches already merged into HEAD' },
+        { cmd: 'git branch -vv', desc: 'List branches with their upstream and ahead/behind', category: 'Remote / GitHub' },
+        { cmd: 'git branch -u origin/<branch>', desc: 'Set the upstream of the current branch', category: 'Remote / GitHub' }
+    ],
+    run: ({ state, parts, opts, positional, has }) => {
+        const current = state.head.type === 'branch' ? state.head.ref : null;
+        const force = has('-f', '--force');
+
+        if (has('-d', '-D', '--delete')) {
+            if (positional.length === 0) return fail(state, gitError('usage', 'fatal: branch name required'));
+            const remoteTracking = has('-r', '--remotes');
+            const lines: string[] = [];
+            let next = state;
+            let error: GitError | undefined;
+            const reject = (e: GitError) => {
+                lines.push(formatError(e));
+                error = e;
+            };
+
+            for (const name of positional) {
+                if (remoteTracking) {
+                    const ref = next.remoteBranches.find(b => b.name === name);
+                    if (!ref) {
+                        reject(gitError('not-found', `error: remote-tracking branch '${name}' not found`));
+                        continue;
+                    }
+                    next = { ...next, remoteBranches: next.remoteBranches.filter(b => b.name !== name) };
+                    lines.push(`Deleted remote-tracking branch ${name} (was ${ref.commitId.substring(0, 7)}).`);
+                    continue;
+                }
+
+                const branch = next.branches.find(b => b.name === name);
+                if (!branch) {
+                    reject(gitError('not-found', `error: branch '${name}' not found`));
+                    continue;
+                }
+                if (name === current) {
+                    reject(gitError('usage', `error: cannot delete branch '${name}' used by worktree at '/project'`));
+                    continue;
+                }
+
+                // Safe deletion checks against the upstream when there is one, like git
+                const upstreamId = resolveRef(next, getUpstreamName(next, name) ?? '');
+                const headId = getHeadCommitId(next);
+                const mergedTo = upstreamId ?? headId;
+                if (!force && !has('-D') && !isAncestor(next, branch.commitId, mergedTo)) {
+                    reject(gitError('not-fully-merged', `error: the branch '${name}' is not fully merged\nhint: If you are sure you want to delete it, run 'git branch -D ${name}'\nhint: Disable this message with "git config advice.forceDeleteBranch false"`));
+                    continue;
+                }
+                if (!force && !has('-D') && upstreamId && !isAncestor(next, branch.commitId, headId)) {
+                    lines.push(`warning: deleting branch '${name}' that has been merged to\n         'refs/remotes/${getUpstreamName(next, name)}', but not yet merged to HEAD`);
+                }
+
+                const upstreams = { ...next.upstreams };
+                delete upstreams[name];
+                next = { ...next, branches: next.branches.filter(b => b.name !== name), upstreams };
+                lines.push(`Deleted branch ${name} (was ${branch.commitId.substring(0, 7)}).`);
+            }
+            return { newState: next, output: lines.join('\n'), success: !error, error };
+        }
+
+        if (has('-m', '-M', '--move')) {
+            const [oldName, newName] = positional.length >= 2 ? positional : [current, positional[0]];
+            if (!newName) return fail(state, gitError('usage', 'fatal: branch name required'));
+            if (!oldName) return fail(state, gitError('detached-head', 'fatal: cannot rename the current branch while not on any'));
+            const branch = state.branches.find(b => b.name === oldName);
+            if (!branch) return fail(state, gitError('not-found', `error: refname refs/heads/${oldName} not found\nfatal: Branch rename failed`));
+            if (!isValidRefName(newName)) return fail(state, gitError('invalid-name', invalidBranchName(newName)));
+            if (newName !== oldName && state.branches.some(b => b.name === newName)) {
+                if (!force && !has('-M')) return fail(state, gitError('already-exists', `fatal: a branch named '${newName}' already exists`));
+                if (newName === current) return fail(state, gitError('usage', `fatal: cannot force update the current branch.`));
+            }
+
+            const renamed: ReflogEntry = {
+                oldId: branch.commitId,
+                newId: branch.commitId,
+                message: `Branch: renamed refs/heads/${oldName} to refs/heads/${newName}`,
+                timestamp: state.clock
+            };
+            const reflogs = { ...state.reflogs };
+            const branchLog = reflogs[oldName] ?? [];
+            delete reflogs[oldName];
+            reflogs[newName] = [renamed, ...branchLog];
+            if (oldName === current) reflogs.HEAD = [renamed, ...(reflogs.HEAD ?? [])];
+
+            const upstreams = { ...state.upstreams };
+            const upstream = upstreams[oldName];
+            delete upstreams[oldName];
+            delete upstreams[newName];
+            if (upstream) upstreams[newName] = upstream;
+
+            return {
+                newState: {
+                    ...state,
+                    branches: [...state.branches.filter(b => b.name !== oldName && b.name !== newName), { name: newName, commitId: branch.commitId }],
+                    head: oldName === current ? { type: 'branch', ref: newName } : state.head,
+                    reflogs,
+                    upstreams
+                },
+                output: '',
+                success: true
+            };
+        }
+
+        if (has('-u', '--set-upstream-to', '--unset-upstream')) {
+            const branchName = positional[0] ?? current;
+            if (!branchName) return fail(state, gitError('detached-head', 'fatal: could not set upstream of HEAD when it does not point to any branch.'));
+            if (!state.branches.some(b => b.name === branchName)) return fail(state, gitError('not-found', `fatal: branch '${branchName}' does not exist`));
+
+            if (has('--unset-upstream')) {
+                if (!state.upstreams[branchName]) return fail(state, gitError('no-upstream', `fatal: branch '${branchName}' has no upstream information`));
+                const upstreams = { ...state.upstreams };
+                delete upstreams[branchName];
+                return { newState: { ...state, upstreams }, output: '', success: true };
+            }
+
+            const upstreamName = opts.values.upstream?.[0];
+            const upstream = upstreamName ? parseRemoteBranch(state, upstreamName) : null;
+            if (!upstreamName || !upstream) {
+                return fail(state, gitError('not-found', `error: the requested upstream branch '${upstreamName ?? ''}' does not exist`));
+            }
+            return {
+                newState: { ...state, upstreams: { ...state.upstreams, [branchName]: upstream } },
+                output: `branch '${branchName}' set up to track '${upstreamName}'.`,
+                success: true
+            };
+        }
+
+        const filters = [
+            { key: 'contains', keep: (id: string, target: string) => isAncestor(state, target, id) },
+            { key: 'noContains', keep: (id: string, target: string) => !isAncestor(state, target, id) },
+            { key: 'merged', keep: (id: string, target: string) => isAncestor(state, id, target) },
+            { key: 'noMerged', keep: (id: string, target: string) => !isAncestor(state, id, target) }
+        ];
+        const filterFlags = ['--contains', '--no-contains', '--merged', '--no-merged'];
+        const listing = positional.length === 0 || has('-l', '--list', '-a', '--all', '-r', '--remotes', ...filterFlags);
+        if (listing) {
+            // Each filter defaults to HEAD when no commit is given
+            const active: { keep: (id: string, target: string) => boolean; target: string }[] = [];
+            for (const [idx, filter] of filters.entries()) {
+                if (!has(filterFlags[idx])) continue;
+                for (const spec of opts.values[filter.key] ?? ['HEAD']) {
+                    const target = resolveRef(state, spec);
+                    if (!target) return fail(state, gitError('bad-revision', `error: malformed object name ${spec}`));
+                    active.push({ keep: filter.keep, target });
+                }
+            }
+            const patterns = positional.map(globToRegExp);
+            const include = (name: string, commitId: string) =>
+                (patterns.length === 0 || patterns.some(p => p.test(name))) && active.every(f => f.keep(commitId, f.target));
+
+            // -v can be repeated (-vv or -v -v) to show more
+            const verbosity = parts.slice(2).reduce((n, arg) => n + (arg === '--verbose' ? 1 : /^-v+$/.test(arg) ? arg.length - 1 : 0), 0);
+            const remote = has('-a', '--all', '-r', '--remotes');
+            return {
+                newState: state,
+                output: formatBranchList(state, {
+                    verbosity: verbosity >= 2 ? 2 : verbosity === 1 ? 1 : 0,
+                    local: !has('-r', '--remotes'),
+                    remote,
+                    include
+                }),
+                success: true
+            };
+        }
+
+        const [branchName, startPointRef] = positional;
+        if (!isValidRefName(branchName)) return fail(state, gitError('invalid-name', invalidBranchName(branchName)));
+        const existing = state.branches.find(b => b.name === branchName);
+        if (existing && !force) {
+            return fail(state, gitError('already-exists', `fatal: a branch named '${branchName}' already exists`));
+        }
+        if (existing && branchName === current) {
+            return fail(state, gitError('usage', `fatal: cannot force update the current branch.`));
+        }
+
+        let startCommitId = getHeadCommitId(state);
+        if (startPointRef) {
+            const resolved = resolveRef(state, startPointRef);
+            if (!resolved) return fail(state, gitError('bad-revision', revisionError(state, startPointRef, `fatal: not a valid object name: '${startPointRef}'`)));
+            startCommitId = resolved;
+        }
+
+        // Like branch.autoSetupMerge, starting from a remote-tracking branch tracks it
+        const upstream = startPointRef && !has('--no-track') ? parseRemoteBranch(state, startPointRef) : null;
+        return {
+            newState: {
+                ...state,
+                branches: setRef(state.branches, branchName, startCommitId),
+                upstreams: upstream ? { ...state.upstreams, [branchName]: upstream } : state.upstreams
+            },
+            output: upstream ? `branch '${branchName}' set up to track '${startPointRef}'.` : existing ? '' : `Created branch '${branchName}'`,
+            success: true,
+        };
+    }
+};
+
+// checkout and switch share one implementation; only their options differ
+const runCheckout = ({ state, parts, opts, positional, has }: CommandContext): CommandResult => {
+    const unresolved = unresolvedError(state);
+    if (unresolved) return fail(state, gitError('unmerged-files', unresolved));
+
+    let newBranchName = opts.values.branch?.[0];
+    let startPoint = positional[0];
+    if (has('-b', '-c', '--create') && !newBranchName) return fail(state, gitError('usage', `error: switch \`${has('-c') ? 'c' : 'b'}' requires a value`));
+
+    if (!newBranchName && has('-t', '--track')) {
+        newBranchName = startPoint ? parseRemoteBranch(state, startPoint)?.branch : undefined;
+        if (!newBranchName) return fail(state, gitError('usage', 'fatal: missing branch name; try -b'));
+    }
+
+    // `git checkout feature` with no local `feature` but an `origin/feature`
+    // creates the local branch and sets it up to track the remote one
+    if (!newBranchName && startPoint && !state.branches.some(b => b.name === startPoint) && !resolveRef(state, startPoint)) {
+        const candidates = state.remoteBranches.filter(b => parseRemoteBranch(state, b.name)?.branch === startPoint);
+        if (candidates.length === 1) {
+            newBranchName = startPoint;
+            startPoint = candidates[0].name;
+        }
+    }
+
+    if (newBranchName) {
+        const branchName = newBranchName;
+        if (!isValidRefName(branchName)) return fail(state, gitError('invalid-name', invalidBranchName(branchName)));
+        if (state.branches.find((b) => b.name === branchName)) {
+            return fail(state, gitError('already-exists', `fatal: a branch named '${branchName}' already exists`));
         }
 
         const currentHeadId = getHeadCommitId(state);
+        const startId = startPoint ? resolveRef(state, startPoint) : currentHeadId;
+        if (!startId) {
+            return fail(state, gitError('bad-revision', revisionError(state, startPoint, `fatal: '${startPoint}' is not a commit and a branch '${branchName}' cannot be created from it`)));
+        }
+        const switched = switchTrees(state, getCommitTree(state, currentHeadId), getCommitTree(state, startId));
+        if (switched.conflicts.length > 0) {
+            return fail(state, gitError('would-overwrite', overwriteError(switched.conflicts, 'checkout')));
+        }
+
+        const upstream = startPoint && !has('--no-track') ? parseRemoteBranch(state, startPoint) : null;
+        return {
+            newState: {
+                ...state,
+                branches: [...state.branches, { name: branchName, commitId: startId }],
+                head: { type: 'branch', ref: branchName },
+                workingTree: switched.workingTree,
+                index: switched.index,
+                upstreams: upstream ? { ...state.upstreams, [branchName]: upstream } : state.upstreams
+            },
+            output: [upstream && `branch '${branchName}' set up to track '${startPoint}'.`, `Switched to a new branch '${branchName}'`].filter(Boolean).join('\n'),
+            success: true,
+        };
+    } else {
+        const requested = startPoint;
+        if (!requested) {
+            if (parts[1] === 'switch') return fail(state, gitError('usage', 'fatal: missing branch or commit argument'));
+            return { newState: state, output: formatTrackingInfo(state)?.long ?? '', success: true };
+        }
+        const previous = requested === '-' ? '1' : requested.match(/^@\{-(\d+)\}$/)?.[1];
+        const target = (previous && previousBranch(state, parseInt(previous, 10))) || requested;
+
+        const branch = state.branches.find((b) => b.name === target);
+        const commitId = branch ? branch.commitId : resolveRef(state, target);
+        if (commitId) {
+            const switched = switchTrees(
+                state,
+                getCommitTree(state, getHeadCommitId(state)),
+                getCommitTree(state, commitId)
+            );
+            if (switched.conflicts.length > 0) {
+                return fail(state, gitError('would-overwrite', overwriteError(switched.conflicts, 'checkout')));
+            }
+
+            if (branch) {
+                const switchedState: GitState = { ...state, head: { type: 'branch', ref: branch.name }, workingTree: switched.workingTree, index: switched.index };
+                return {
+                    newState: switchedState,
+                    output: [`Switched to branch '${target}'`, formatTrackingInfo(switchedState)?.long].filter(Boolean).join('\n'),
+                    success: true,
+                };
+            }
+            return {
+                newState: { ...state, head: { type: 'commit', ref: commitId }, workingTree: switched.workingTree, index: switched.index },
+                output: `Note: switching to '${target}'. You are in 'detached HEAD' state.`,
+                success: true
+            };
+        }
+
+        return fail(state, gitError('pathspec', revisionError(state, target, `error: pathspec '${target}' did not match any file(s) known to git`)));
+    }
+};
+
+const checkoutCommand: GitCommand = {
+    name: 'checkout',
+    summary: 'Switch branches or restore working tree files',
+    usage: ['git checkout [<options>] <branch>', 'git checkout [<options>] [<branch>] -- <file>...'],
+    options: [
+        { flags: ['-b'], arg: '<branch>', key: 'branch', description: 'create and checkout a new branch' },
+        { flags: ['-t', '--track'], description: 'set upstream info for new branch' },
+        { flags: ['--no-track'], description: 'do not set upstream info for new branch' }
+    ],
+    category: 'Branching',
+    examples: [
+        { cmd: 'git checkout <name>', desc: 'Switch to a branch' },
+        { cmd: 'git checkout -b <name>', desc: 'Create & switch branch' },
+        { cmd: 'git checkout -', desc: 'Switch back to the previous branch' },
+        { cmd: 'git checkout HEAD~2', desc: 'Inspect an older commit (also ^, ^2, @{u})' },
+        { cmd: 'git checkout --track origin/<branch>', desc: 'Create a local branch tracking a remote one', category: 'Remote / GitHub' }
+    ],
+    run: runCheckout
+};
+
+const switchCommand: GitCommand = {
+    name: 'switch',
+    summary: 'Switch branches',
+    usage: ['git switch [<options>] [<branch>]', 'git switch [<options>] -c <new-branch> [<start-point>]'],
+    options: [
+        { flags: ['-c', '--create'], arg: '<branch>', key: 'branch', description: 'create and switch to a new branch' },
+        { flags: ['-t', '--track'], description: 'set upstream info for new branch' },
+        { flags: ['--no-track'], description: 'do not set upstream info for new branch' }
+    ],
+    category: 'Branching',
+    examples: [
+        { cmd: 'git switch -c <name>', desc: 'Create a branch and switch to it' }
+    ],
+    run: runCheckout
+};
 
-        if (sourceCommitId === currentHeadId) {
+const mergeCommand: GitCommand = {
+    name: 'merge',
+    summary: 'Join two or more development histories together',
+    usage: ['git merge [<options>] [<commit>...]', 'git merge --abort', 'git merge --continue'],
+    options: [
+        { flags: ['--no-ff'], description: 'create a merge commit even when a fast-forward is possible' },
+        { flags: ['--ff-only'], description: 'abort if fast-forward is not possible' },
+        { flags: ['--squash'], description: 'stage the merged changes without creating a merge commit' },
+        { flags: ['-m', '--message'], arg: '<message>', key: 'message', description: 'merge commit message' },
+        { flags: ['--no-edit'], description: 'accept the auto-generated merge message' },
+        { flags: ['--abort'], description: 'abort the current in-progress merge' },
+        { flags: ['--continue'], description: 'continue the current in-progress merge' }
+    ],
+    category: 'Branching',
+    examples: [
+        { cmd: 'git merge <branch>', desc: 'Merge branch into current' },
+        { cmd: 'git merge --no-ff <branch>', desc: 'Always record a merge commit, like a pull request merge' },
+        { cmd: 'git merge --squash <branch>', desc: "Stage a branch's changes to commit as one" },
+        { cmd: 'git merge <branch> <branch>...', desc: 'Merge several branches in one octopus merge' }
+    ],
+    run: ({ state, opts, positional, has }) => {
+        if (has('--abort')) {
+            if (!state.merge) return fail(state, gitError('no-operation', 'fatal: There is no merge to abort (MERGE_HEAD missing).'));
+            const headTree = getCommitTree(state, getHeadCommitId(state));
+            const tracked = Array.from(new Set([...Object.keys(state.index), ...Object.keys(headTree)]));
+            return {
+                newState: { ...state, conflicts: [], merge: null, index: headTree, workingTree: copyPaths(state.workingTree, headTree, tracked) },
+                output: '',
+                success: true
+            };
+        }
+
+        if (has('--continue')) {
+            if (!state.merge) return fail(state, gitError('no-operation', 'fatal: There is no merge in progress (MERGE_HEAD missing).'));
+            return runGitCommand(['git', 'commit'], state);
+        }
+
+        // A conflicted `--squash` leaves conflicts without MERGE_HEAD
+        if (state.merge || state.conflicts.length > 0) {
+            return fail(state, state.conflicts.length > 0
+                ? gitError('unmerged-files', `error: Merging is not possible because you have unmerged files.\nhint: Fix them up in the work tree, and then use 'git add/rm <file>'\nhint: as appropriate to mark resolution and make a commit.\nfatal: Exiting because of an unresolved conflict.`)
+                : gitError('operation-in-progress', `fatal: You have not concluded your merge (MERGE_HEAD exists).\nPlease, commit your changes before you merge.`));
+        }
+
+        const squash = has('--squash');
+        if (squash && has('--no-ff')) return fail(state, gitError('usage', 'fatal: You cannot combine --squash with --no-ff.'));
+        if (positional.length === 0) return fail(state, gitError('no-upstream', 'fatal: No remote for the current branch.'));
+
+        const sources: { name: string; id: string }[] = [];
+        for (const name of positional) {
+            const id = resolveRef(state, name);
+            if (!id) return fail(state, gitError('bad-revision', revisionError(state, name, `merge: ${name} - not something we can merge`)));
+            sources.push({ name, id });
+        }
+
+        const currentHeadId = getHeadCommitId(state);
+        // Commits HEAD already contains have nothing left to merge
+        const pending = sources.filter(s => !isAncestor(state, s.id, currentHeadId));
+        if (pending.length === 0) {
             return { newState: state, output: `Already up to date.`, success: true };
         }
 
+        // Several commits at once make an octopus merge, which never
+        // fast-forwards and gives up instead of stopping for conflicts
+        const octopus = pending.length > 1;
+        // An unborn branch simply starts at the merged commit
+        const isFastForward = !octopus && (!currentHeadId || isAncestor(state, currentHeadId, pending[0].id));
+        if (!isFastForward && has('--ff-only')) return fail(state, gitError('non-fast-forward', DIVERGING_ERROR));
+        state = { ...state, origHead: currentHeadId };
+
+        const headTree = getCommitTree(state, currentHeadId);
+        const message = opts.values.message?.join('\n\n');
+        const squashMessage = message ?? formatSquashMessage(state, currentHeadId, pending.map(s => s.id));
+
+        if (isFastForward && !has('--no-ff')) {
+            const sourceCommitId = pending[0].id;
+            const sourceTree = getCommitTree(state, sourceCommitId);
+            const switched = switchTrees(state, headTree, sourceTree);
+            if (switched.conflicts.length > 0) {
+                return fail(state, gitError('would-overwrite', overwriteError(switched.conflicts, 'merge')));
+            }
+
+            return {
+                newState: {
+                    ...state,
+                    // A squash only stages the result
+                    ...(squash ? { squashMessage } : moveHead(state, sourceCommitId)),
+                    workingTree: switched.workingTree,
+                    index: switched.index
+                },
+                output: [
+                    currentHeadId ? `Updating ${currentHeadId.substring(0, 7)}..${sourceCommitId.substring(0, 7)}` : '',
+                    'Fast-forward',
+                    squash ? 'Squash commit -- not updating HEAD' : '',
+                    formatDiffStat(diffTrees(headTree, sourceTree))
+                ].filter(Boolean).join('\n'),
+                success: true
+            };
+        }
+
+        const tried = octopus ? pending.map(s => `Trying simple merge with ${s.name}`) : [];
+        const merged = mergeEach(state, currentHeadId, pending.map(s => ({ id: s.id, label: s.name })));
+        const report = formatConflictReport(merged.conflicts, merged.autoMerged, merged.label);
+        if (octopus && merged.conflicts.length > 0) {
+            return fail(state, gitError('conflict', 'Automated merge did not work.\nShould not be doing an octopus.\nMerge with strategy octopus failed.', 2),
+                [...tried, 'Simple merge did not work, trying automatic merge.', ...report].join('\n'));
+        }
+        const switched = switchTrees(state, headTree, merged.tree);
+        if (switched.conflicts.length > 0) {
+            return fail(state, gitError('would-overwrite', overwriteError(switched.conflicts, 'merge')));
+        }
+
+        if (merged.conflicts.length > 0) {
+            const conflictPaths = merged.conflicts.map(c => c.path);
+            const indexTree = copyPaths(merged.tree, headTree, conflictPaths);
+            return fail({
+                ...state,
+                workingTree: switched.workingTree,
+                index: applyTreeChange(state.index, headTree, indexTree),
+                conflicts: merged.conflicts,
+                ...(squash ? { squashMessage } : { merge: { sourceId: pending[0].id, message: message ?? defaultMergeMessage(state, [pending[0].name]) } })
+            }, gitError('conflict', 'Automatic merge failed; fix conflicts and then commit the result.'),
+            [...report, ...(squash ? ['Squash commit -- not updating HEAD'] : [])].join('\n'));
+        }
+
+        if (squash) {
+            return {
+                newState: { ...state, workingTree: switched.workingTree, index: switched.index, squashMessage },
+                output: [...tried, ...report, 'Squash commit -- not updating HEAD', 'Automatic merge went well; stopped before committing as requested'].join('\n'),
+                success: true
+            };
+        }
+
+        const newCommit = createCommit({
+            message: message ?? defaultMergeMessage(state, pending.map(s => s.name)),
+            parentId: currentHeadId,
+            secondParentId: pending[0].id,
+            ...(octopus ? { otherParentIds: pending.slice(1).map(s => s.id) } : {}),
+            timestamp: getNextTimestamp(state),
+            author: getIdentity(state),
+            tree: merged.tree
+        });
+
+        return {
+            newState: {
+                ...state,
+                commits: [...state.commits, newCommit],
+                ...moveHead(state, newCommit.id),
+                workingTree: switched.workingTree,
+                index: switched.index
+            },
+            output: [
+                ...tried,
+                ...report,
+                `Merge made by the '${octopus ? 'octopus' : 'ort'}' strategy.`,
+                formatDiffStat(diffTrees(headTree, merged.tree))
+            ].filter(Boolean).join('\n'),
+            success: true
+        };
+    }
+};
+
+const remoteCommand: GitCommand = {
+    name: 'remote',
+    summary: 'Manage set of tracked repositories',
+    usage: [
+        'git remote [-v | --verbose]',
+        'git remote add <name> <url>',
+        'git remote rename <old> <new>',
+        'git remote remove <name>',
+        'git remote set-url <name> <newurl>',
+        'git remote get-url <name>'
+    ],
+    options: [
+        { flags: ['-v', '--verbose'], description: 'be verbose; must be placed before a subcommand' }
+    ],
+    category: 'Remote / GitHub',
+    examples: [
+        { cmd: 'git remote add origin <url>', desc: 'Connect to GitHub' },
+        { cmd: 'git remote -v', desc: 'List remotes (rename, remove, set-url)' }
+    ],
+    run: ({ state, positional, has }) => {
+        const [action, ...args] = positional;
+        const noSuchRemote = (name: string): CommandResult => fail(state, gitError('remote', `error: No such remote: '${name}'`));
+
+        if (!action) {
+            const lines = Object.entries(state.remotes).flatMap(([name, remote]) =>
+                has('-v', '--verbose') ? [`${name}\t${remote.url} (fetch)`, `${name}\t${remote.url} (push)`] : [name]
+            );
+            return { newState: state, output: lines.join('\n'), success: true };
+        }
+
+        if (action === 'add') {
+            const [name, url] = args;
+            if (!name || !url) return fail(state, gitError('usage', 'usage: git remote add [<options>] <name> <url>'));
+            if (state.remotes[name]) return fail(state, gitError('already-exists', `error: remote ${name} already exists.`));
+
+            const remote: Remote = { url, commits: [], branches: [], tags: [], head: null };
+            return { newState: { ...state, remotes: { ...state.remotes, [name]: remote } }, output: '', success: true };
+        }
+
+        if (action === 'remove' || action === 'rm') {
+            const [name] = args;
+            if (!name) return fail(state, gitError('usage', 'usage: git remote remove <name>'));
+            if (!state.remotes[name]) return noSuchRemote(name);
+
+            const remotes = { ...state.remotes };
+            delete remotes[name];
+            const upstreams = Object.fromEntries(Object.entries(state.upstreams).filter(([, u]) => u.remote !== name));
+            return {
+                newState: { ...state, remotes, upstreams, remoteBranches: state.remoteBranches.filter(b => !b.name.startsWith(`${name}/`)) },
+                output: '',
+                success: true
+            };
+        }
+
+        if (action === 'rename') {
+            const [oldName, newName] = args;
+            if (!oldName || !newName) return fail(state, gitError('usage', 'usage: git remote rename [--[no-]progress] <old> <new>'));
+            if (!state.remotes[oldName]) return noSuchRemote(oldName);
+            if (state.remotes[newName]) return fail(state, gitError('already-exists', `error: remote ${newName} already exists.`));
+
+            const remotes = Object.fromEntries(Object.entries(state.remotes).map(([name, remote]) => [name === oldName ? newName : name, remote]));
+            const remoteBranches = state.remoteBranches.map(b =>
+                b.name.startsWith(`${oldName}/`) ? { ...b, name: `${newName}/${b.name.slice(oldName.length + 1)}` } : b
+            );
+            const upstreams = Object.fromEntries(Object.entries(state.upstreams).map(([branch, u]) => [branch, u.remote === oldName ? { ...u, remote: newName } : u]));
+            return { newState: { ...state, remotes, remoteBranches, upstreams }, output: '', success: true };
+        }
+
+        if (action === 'set-url') {
+            const [name, url] = args;
+            if (!name || !url) return fail(state, gitError('usage', 'usage: git remote set-url [--push] <name> <newurl> [<oldurl>]'));
+            const remote = state.remotes[name];
+            if (!remote) return fail(state, gitError('remote', `error: No such remote '${name}'`));
+            return { newState: { ...state, remotes: { ...state.remotes, [name]: { ...remote, url } } }, output: '', success: true };
+        }
+
+        if (action === 'get-url') {
+            const [name] = args;
+            const remote = name ? state.remotes[name] : undefined;
+            if (!remote) return fail(state, gitError('remote', `error: No such remote '${name ?? ''}'`));
+            return { newState: state, output: remote.url, success: true };
+        }
+
+        return fail(state, gitError('usage', `error: unknown subcommand: \`${action}'`));
+    }
+};
+
+const pushCommand: GitCommand = {
+    name: 'push',
+    summary: 'Update remote refs along with associated objects',
+    usage: ['git push [<options>] [<repository> [<refspec>...]]'],
+    options: [
+        { flags: ['-u', '--set-upstream'], description: 'set upstream for git pull/status' },
+        { flags: ['-f', '--force'], description: 'force updates' },
+        { flags: ['--force-with-lease'], arg: '<refname>[:<expect>]', description: 'require old value of ref to be at this value' },
+        { flags: ['-d', '--delete'], description: 'delete refs' },
+        { flags: ['--all'], description: 'push all branches' },
+        { flags: ['--tags'], description: 'push tags' }
+    ],
+    category: 'Remote / GitHub',
+    examples: [
+        { cmd: 'git push -u origin main', desc: 'Upload branch to GitHub and track it' },
+        { cmd: 'git push origin <src>:<dst>', desc: 'Push a local ref to a differently named remote branch' },
+        { cmd: 'git push --force-with-lease', desc: 'Overwrite the remote branch only if nobody else pushed' },
+        { cmd: 'git push origin --delete <branch>', desc: 'Delete a branch on the remote' },
+        { cmd: 'git push --tags', desc: 'Upload all local tags' }
+    ],
+    run: ({ state, opts, positional, has }) => {
+        const current = state.head.type === 'branch' ? state.head.ref : null;
+        const upstream = current ? state.upstreams[current] : undefined;
+        const [remoteArg, ...refspecs] = positional;
+        const pushAll = has('--all');
+        const pushTags = has('--tags');
+        const deleting = has('-d', '--delete');
+        if (!remoteArg && Object.keys(state.remotes).length === 0) {
+            return fail(state, gitError('remote', 'fatal: No configured push destination.\nEither specify the URL from the command-line or configure a remote repository using\n\n    git remote add <name> <url>\n\nand then push using the remote name\n\n    git push <name>'));
+        }
+        if (deleting && refspecs.length === 0) return fail(state, gitError('usage', "fatal: --delete doesn't make sense without any refs"));
+        if (pushAll && (pushTags || refspecs.length > 0)) {
+            return fail(state, gitError('usage', `fatal: options '--all' and '${pushTags ? '--tags' : 'refspecs'}' cannot be used together`));
+        }
+
+        // Without refspecs git pushes the current branch to its upstream
+        const pushCurrent = refspecs.length === 0 && !pushAll && !pushTags;
+        if (pushCurrent && !current) return fail(state, gitError('detached-head', 'fatal: You are not currently on a branch.'));
+        if (pushCurrent && !remoteArg && !upstream) {
+            return fail(state, gitError('no-upstream', `fatal: The current branch ${current} has no upstream branch.\nTo push the current branch and set the remote as upstream, use\n\n    git push --set-upstream origin ${current}`));
+        }
+
+        const remoteName = remoteArg ?? upstream?.remote ?? 'origin';
+        const remote = state.remotes[remoteName];
+        if (!remote) return fail(state, gitError('remote', unknownRemoteError(remoteName)));
+
+        const force = has('-f', '--force');
+        const leases = opts.values['--force-with-lease'] ?? [];
+        const leaseFor = (ref: PushRef): string | null | undefined => {
+            if (ref.tag || !has('--force-with-lease')) return undefined;
+            // `--force-with-lease=<ref>[:<expect>]` only protects the refs it names
+            const entry = leases.map(l => l.split(':')).find(([name]) => name === ref.dst);
+            if (leases.length > 0 && !entry) return undefined;
+            if (entry?.[1]) return resolveRef(state, entry[1]);
+            return state.remoteBranches.find(b => b.name === `${remoteName}/${ref.dst}`)?.commitId ?? null;
+        };
+
+        const refs: PushRef[] = [];
+        const shortName = (name: string) => name.replace(/^refs\/(heads|tags)\//, '');
+        if (pushAll) state.branches.forEach(b => refs.push({ src: b.name, srcId: b.commitId, dst: b.name, tag: false, force }));
+        if (pushTags) state.tags.forEach(t => refs.push({ src: t.name, srcId: t.commitId, dst: t.name, tag: true, force }));
+        if (pushCurrent) {
+            const destination = !remoteArg && upstream ? upstream.branch : current!;
+            refs.push({ src: current!, srcId: getHeadCommitId(state), dst: destination, tag: false, force });
+        }
+
+        for (const spec of refspecs) {
+            const forced = force || spec.startsWith('+');
+            const [srcSpec, dstSpec] = (forced && spec.startsWith('+') ? spec.slice(1) : spec).split(':');
+            if (deleting || (dstSpec !== undefined && srcSpec === '')) {
+                const name = deleting ? srcSpec : dstSpec;
+                const dst = shortName(name);
+                const tag = name.startsWith('refs/tags/') || (!remote.branches.some(b => b.name === dst) && remote.tags.some(t => t.name === dst));
+                refs.push({ src: null, srcId: null, dst, tag, force: forced });
+                continue;
+            }
+
+            const src = srcSpec === 'HEAD' && current ? current : shortName(srcSpec);
+            const branch = srcSpec.startsWith('refs/tags/') ? undefined : state.branches.find(b => b.name === src);
+            const tag = state.tags.find(t => t.name === src);
+            // A raw commit can be pushed as long as the destination is spelled out
+            const srcId = branch?.commitId ?? tag?.commitId ?? (dstSpec ? resolveRef(state, srcSpec) : null);
+            if (!srcId) {
+                return fail(state, gitError('bad-revision', `error: src refspec ${srcSpec} does not match any\nerror: failed to push some refs to '${remote.url}'`));
+            }
+            refs.push({ src, srcLabel: shortName(srcSpec), srcId, dst: dstSpec ? shortName(dstSpec) : src, tag: !branch && !!tag, force: forced });
+        }
+        refs.forEach(ref => { ref.lease = leaseFor(ref); });
+
+        const result = pushToRemote(state, remoteName, refs);
+        const rejected = result.rejections.length > 0 || result.errors.length > 0;
+
+        // -u only records upstreams for branches that actually made it
+        const tracked = has('-u', '--set-upstream') ? result.pushed.filter(r => r.src && !r.tag && state.branches.some(b => b.name === r.src)) : [];
+        const upstreams = { ...state.upstreams };
+        tracked.forEach(r => { upstreams[r.src!] = { remote: remoteName, branch: r.dst }; });
+
+        const output = [
+            ...result.errors,
+            ...(result.sent > 0 ? [`Enumerating objects: ${result.sent}, done.`] : []),
+            ...(result.lines.length > 0 ? [`To ${remote.url}`, ...result.lines] : []),
+            ...tracked.map(r => `branch '${r.src}' set up to track '${remoteName}/${r.dst}'.`),
+            ...(result.lines.length === 0 && !rejected ? ['Everything up-to-date'] : [])
+        ].join('\n');
+
+        const pushed = { ...result.state, upstreams };
+        if (!rejected) return { newState: pushed, output, success: true };
+        const failure = [
+            `error: failed to push some refs to '${remote.url}'`,
+            ...Array.from(new Set(result.rejections)).map(r => PUSH_HINTS[r]).filter(Boolean)
+        ].join('\n');
+        return fail(pushed, gitError(result.rejections.length > 0 ? PUSH_REJECTION_CODES[result.rejections[0]] : 'remote', failure), output);
+    }
+};
+
+const fetchCommand: GitCommand = {
+    name: 'fetch',
+    summary: 'Download objects and refs from another repository',
+    usage: ['git fetch [<options>] [<repository>]', 'git fetch --all'],
+    options: [
+        { flags: ['--all'], description: 'fetch from all remotes' },
+        { flags: ['-p', '--prune'], description: 'prune remote-tracking branches no longer on remote' },
+        { flags: ['-t', '--tags'], description: 'fetch all tags and associated objects' }
+    ],
+    category: 'Remote / GitHub',
+    examples: [
+        { cmd: 'git fetch', desc: 'Download remote changes' },
+        { cmd: 'git fetch --prune', desc: 'Also drop remote-tracking branches deleted on the remote' }
+    ],
+    run: ({ state, positional, has }) => {
+        const all = has('--all');
+        const remoteNames = all ? Object.keys(state.remotes) : [positional[0] ?? 'origin'];
+        const missing = remoteNames.find(name => !state.remotes[name]);
+        if (missing) return fail(state, gitError('remote', unknownRemoteError(missing)));
+
+        let fetched = state;
+        const output: string[] = [];
+        for (const name of remoteNames) {
+            const result = fetchFromRemote(fetched, name, { prune: has('-p', '--prune'), tags: has('-t', '--tags') });
+            fetched = result.state;
+            if (all) output.push(`Fetching ${name}`);
+            if (result.lines.length > 0) output.push(`From ${state.remotes[name].url}`, ...result.lines);
+        }
+        return { newState: fetched, output: output.join('\n'), success: true };
+    }
+};
+
+const pullCommand: GitCommand = {
+    name: 'pull',
+    summary: 'Fetch from and integrate with another repository or a local branch',
+    usage: ['git pull [<options>] [<repository> [<branch>]]'],
+    options: [
+        { flags: ['-r', '--rebase'], arg: '<false|true>', description: 'incorporate changes by rebasing rather than merging' },
+        { flags: ['--no-rebase'], description: 'incorporate changes by merging' },
+        { flags: ['--ff'], description: 'allow fast-forward' },
+        { flags: ['--no-ff'], description: 'create a merge commit even when a fast-forward is possible' },
+        { flags: ['--ff-only'], description: 'abort if fast-forward is not possible' }
+    ],
+    category: 'Remote / GitHub',
+    examples: [
+        { cmd: 'git pull', desc: 'Fetch and merge changes' },
+        { cmd: 'git pull --rebase', desc: 'Fetch and replay your commits on top' },
+        { cmd: 'git pull --ff-only', desc: 'Only update if no merge is needed' },
+        { cmd: 'git config pull.rebase true', desc: 'Make git pull rebase by default' }
+    ],
+    run: ({ state, opts, positional, has }) => {
+        const current = state.head.type === 'branch' ? state.head.ref : null;
+        const upstream = current ? state.upstreams[current] : undefined;
+        const [remoteArg, branchArg] = positional;
+        if (!remoteArg && !upstream) {
+            return fail(state, gitError('no-upstream', current
+                ? `There is no tracking information for the current branch.\nPlease specify which branch you want to merge with.\n\n    git pull <remote> <branch>\n\nIf you wish to set tracking information for this branch you can do so with:\n\n    git branch --set-upstream-to=origin/<branch> ${current}`
+                : 'You are not currently on a branch.\nPlease specify which branch you want to merge with.\n\n    git pull <remote> <branch>'));
+        }
+
+        // Command-line options win over pull.rebase and pull.ff
+        const rebaseValue = opts.values['--rebase']?.[0];
+        const rebaseConfig = getConfig(state, 'pull.rebase');
+        const rebasing = has('--no-rebase') ? false
+            : has('-r', '--rebase') ? parseConfigBool(rebaseValue) ?? true
+                : rebaseConfig !== undefined ? parseConfigBool(rebaseConfig) ?? true : null;
+        const ffConfig = getConfig(state, 'pull.ff');
+        const ffMode = has('--ff-only') ? 'only' : has('--no-ff') ? 'false' : has('--ff') ? 'true'
+            : has('-r', '--rebase', '--no-rebase') ? null : ffConfig ?? null;
+
+        const remoteName = remoteArg ?? upstream!.remote;
+        const fetchRes = runGitCommand(['git', 'fetch', remoteName], state);
+        if (!fetchRes.success) return fetchRes;
+
+        const mergeBranch = branchArg ?? (upstream?.remote === remoteName ? upstream.branch : null);
+        if (!mergeBranch) {
+            return fail(fetchRes.newState, gitError('no-upstream', `You asked to pull from the remote '${remoteName}', but did not specify\na branch. Because this is not the default configured remote\nfor your current branch, you must specify a branch on the command line.`), fetchRes.output);
+        }
+
+        const target = `${remoteName}/${mergeBranch}`;
+        const fetched = fetchRes.newState;
+        const targetId = resolveRef(fetched, target);
+        if (!targetId) {
+            return fail(fetched, gitError('remote', `fatal: couldn't find remote ref ${mergeBranch}`), fetchRes.output);
+        }
 
-        const isFastForward = isAncestor(state, currentHeadId, sourceCommitId);
+        const headId = getHeadCommitId(fetched);
+        const diverged = !isAncestor(fetched, headId, targetId) && !isAncestor(fetched, targetId, headId);
+        let integrated: CommandResult;
+        if (diverged && !rebasing && ffMode === 'only') {
+            integrated = fail(fetched, gitError('non-fast-forward', DIVERGING_ERROR));
+        } else if (diverged && rebasing === null && ffMode === null) {
+            integrated = fail(fetched, gitError('non-fast-forward', DIVERGENT_PULL_ERROR));
+        } else if (diverged && rebasing) {
+            integrated = runGitCommand(['git', 'rebase', target], fetched);
+        } else {
+            // A pull that can fast-forward does so even with --rebase
+            const ffFlag = ffMode === 'false' && !rebasing ? ['--no-ff'] : [];
+            integrated = runGitCommand(['git', 'merge', ...ffFlag, target], fetched);
+        }
+
+        return {
+            newState: integrated.newState,
+            output: [fetchRes.output, integrated.output].filter(Boolean).join('\n'),
+            success: integrated.success,
+            error: integrated.error
+        };
+    }
+};
 
-        if (isFastForward) {
+const cloneCommand: GitCommand = {
+    name: 'clone',
+    summary: 'Clone a repository into a new directory',
+    usage: ['git clone <repo> [<dir>]'],
+    options: [],
+    category: 'Remote / GitHub',
+    examples: [
+        { cmd: 'git clone <url>', desc: 'Download a repo' }
+    ],
+    run: ({ state, positional }) => {
+        const [url, directory] = positional;
+        if (!url) return fail(state, gitError('usage', 'fatal: You must specify a repository to clone.'));
+        const name = directory ?? url.replace(/\/+$/, '').split('/').pop()!.replace(/\.git$/, '');
+
+        const release = createCommit({ message: 'Initial public release', parentId: null, secondParentId: null, timestamp: state.clock - 10000, author: 'Origin', tree: { 'README.md': '# Demo\n', 'index.js': 'console.log("hello");\n' } });
+        const update = createCommit({ message: 'Update README', parentId: release.id, secondParentId: null, timestamp: state.clock - 5000, author: 'Origin', tree: { 'README.md': '# Demo\n\nA sample project.\n', 'index.js': 'console.log("hello");\n' } });
+        const clonedState = seedState({
+            commits: [release, update],
+            branches: [{ name: 'main', commitId: update.id }],
+            tags: [],
+            head: { type: 'branch', ref: 'main' },
+            remotes: { origin: { url, branches: [{ name: 'main', commitId: update.id }] } },
+            reflogs: {
+                HEAD: [{ oldId: null, newId: update.id, message: `clone: from ${url}`, timestamp: state.clock }],
+                main: [{ oldId: null, newId: update.id, message: `clone: from ${url}`, timestamp: state.clock }]
+            },
+            config: { ...state.config, local: {} },
+            clock: state.clock
+        });
+        const objects = clonedState.remotes.origin.commits.length;
+        return {
+            newState: clonedState,
+            output: `Cloning into '${name}'...\nremote: Enumerating objects: ${objects}, done.\nremote: Total ${objects} (delta 0), reused 0 (delta 0)\nUnpacking objects: 100% (${objects}/${objects}), done.`,
+            success: true
+        };
+    }
+};
+
+const resetCommand: GitCommand = {
+    name: 'reset',
+    summary: 'Reset current HEAD to the specified state',
+    usage: ['git reset [--mixed | --soft | --hard] [<commit>]'],
+    options: [
+        { flags: ['--soft'], description: 'reset only HEAD' },
+        { flags: ['--mixed'], description: 'reset HEAD and index' },
+        { flags: ['--hard'], description: 'reset HEAD, index and working tree' }
+    ],
+    category: 'Advanced',
+    examples: [
+        { cmd: 'git reset --hard <ref>', desc: 'Move HEAD backward (destructive)' },
+        { cmd: 'git reset --hard HEAD@{1}', desc: 'Go back to where HEAD was before the last move' }
+    ],
+    run: ({ state, positional, has }) => {
+        const mode = ['--soft', '--mixed', '--hard'].find(m => has(m)) ?? '--mixed';
+        const actualTarget = positional[0] ?? 'HEAD';
+
+        const targetId = resolveRef(state, actualTarget);
+        if (!targetId) {
+            return fail(state, gitError('bad-revision', revisionError(state, actualTarget, `fatal: ambiguous argument '${actualTarget}': unknown revision or path not in the working tree.`)));
+        }
+
+        // --hard only rewrites tracked files; untracked ones are left alone
+        const targetTree = getCommitTree(state, targetId);
+        const tracked = Array.from(new Set([...Object.keys(state.index), ...Object.keys(targetTree)]));
+        return {
+            newState: {
+                ...state,
+                ...moveHead(state, targetId),
+                workingTree: mode === '--hard' ? copyPaths(state.workingTree, targetTree, tracked) : state.workingTree,
+                index: mode === '--soft' ? state.index : targetTree,
+                conflicts: mode === '--soft' ? state.conflicts : [],
+                merge: null,
+                pick: null,
+                squashMessage: null,
+                origHead: getHeadCommitId(state)
+            },
+            output: `HEAD is now at ${targetId.substring(0, 7)}`,
+            success: true
+        }
+    }
+};
+
+const reflogCommand: GitCommand = {
+    name: 'reflog',
+    summary: 'Manage reflog information',
+    usage: ['git reflog [show] [-n <number>] [<ref>]'],
+    options: [
+        { flags: ['-n', '--max-count'], arg: '<number>', key: 'maxCount', description: 'limit the number of entries to output' },
+        { flags: ['-<n>'], description: 'same as -n <n>' }
+    ],
+    category: 'Advanced',
+    examples: [
+        { cmd: 'git reflog', desc: 'List every place HEAD has pointed to' }
+    ],
+    run: ({ state, opts, positional }) => {
+        const ref = positional.find(p => p !== 'show') ?? 'HEAD';
+        const entries = state.reflogs[ref];
+        if (!entries) {
+            return fail(state, gitError('bad-revision', `fatal: ambiguous argument '${ref}': unknown revision or path not in the working tree.`));
+        }
+        const countFlag = Array.from(opts.flags).find(f => /^-\d+$/.test(f));
+        const countValue = opts.values.maxCount?.[0] ?? countFlag?.slice(1);
+        const maxCount = countValue !== undefined ? parseInt(countValue, 10) : Infinity;
+        if (Number.isNaN(maxCount)) return fail(state, gitError('usage', `fatal: '${countValue}': not an integer`));
+        const lines = entries.slice(0, maxCount).map((e, n) => `${e.newId.substring(0, 7)} ${ref}@{${n}}: ${e.message}`);
+        return { newState: state, output: lines.join('\n'), success: true };
+    }
+};
+
+// Cherry-picks or reverts a commit onto HEAD with a three-way merge. A
+// conflict stops with the commit recorded in `pick`, which `--continue`
+// commits and `--abort` or `--skip` throws away, like a stopped merge.
+const runPick = (kind: PickState['kind']) => ({ state, positional, has }: CommandContext): CommandResult => {
+    const control = ['--continue', '--abort', '--skip'].find(flag => has(flag));
+    if (control) {
+        if (state.pick?.kind !== kind) return fail(state, gitError('no-operation', `error: no cherry-pick or revert in progress\nfatal: ${kind} failed`));
+        if (control === '--continue') return runGitCommand(['git', 'commit'], state);
+        const headTree = getCommitTree(state, getHeadCommitId(state));
+        const tracked = Array.from(new Set([...Object.keys(state.index), ...Object.keys(headTree)]));
+        return {
+            newState: { ...state, conflicts: [], pick: null, index: headTree, workingTree: copyPaths(state.workingTree, headTree, tracked) },
+            output: '',
+            success: true
+        };
+    }
+
+    if (state.pick) {
+        return fail(state, gitError('operation-in-progress', `error: ${state.pick.kind} is already in progress\nhint: try "git ${state.pick.kind} (--continue | --abort | --skip)"\nfatal: ${kind} failed`));
+    }
+    const unresolved = unresolvedError(state);
+    if (unresolved) return fail(state, gitError('unmerged-files', unresolved));
+
+    const targetRef = positional[0];
+    const targetId = resolveRef(state, targetRef);
+    if (!targetId) return fail(state, gitError('bad-revision', revisionError(state, targetRef, `fatal: bad revision '${targetRef}'`)));
+
+    const commit = state.commits.find(c => c.id === targetId);
+    if (!commit) return fail(state, gitError('bad-revision', `fatal: bad object ${targetId}`));
+
+    const currentHeadId = getHeadCommitId(state);
+    const headTree = getCommitTree(state, currentHeadId);
+    const parentTree = getCommitTree(state, commit.parentId);
+    const label = `${commit.id.substring(0, 7)} (${subjectOf(commit.message)})`;
+    // A revert merges in the parent with the commit itself as the base
+    const theirs = kind === 'revert' ? `parent of ${label}` : label;
+    const merged = kind === 'revert'
+        ? mergeTrees(commit.tree, headTree, parentTree, { ours: 'HEAD', theirs })
+        : mergeTrees(parentTree, headTree, commit.tree, { ours: 'HEAD', theirs });
+    const switched = switchTrees(state, headTree, merged.tree);
+    if (switched.conflicts.length > 0) {
+        return fail(state, gitError('would-overwrite', overwriteError(switched.conflicts, kind)));
+    }
+
+    const message = kind === 'revert' ? `Revert "${commit.message}"` : commit.message;
+    // A cherry-pick keeps the original author
+    const author = kind === 'revert' ? getIdentity(state) : commit.author;
+    const report = formatConflictReport(merged.conflicts, merged.autoMerged, theirs);
+
+    if (merged.conflicts.length > 0) {
+        const conflictPaths = merged.conflicts.map(c => c.path);
+        return fail({
+            ...state,
+            workingTree: switched.workingTree,
+            index: applyTreeChange(state.index, headTree, copyPaths(merged.tree, headTree, conflictPaths)),
+            conflicts: merged.conflicts,
+            pick: { kind, commitId: commit.id, message, author }
+        }, gitError('conflict', [
+            `error: could not ${kind === 'revert' ? 'revert' : 'apply'} ${commit.id.substring(0, 7)}... ${subjectOf(commit.message)}`,
+            'hint: After resolving the conflicts, mark them with',
+            'hint: "git add/rm <pathspec>", then run',
+            `hint: "git ${kind} --continue".`,
+            `hint: You can instead skip this commit with "git ${kind} --skip".`,
+            `hint: To abort and get back to the state before "git ${kind}",`,
+            `hint: run "git ${kind} --abort".`
+        ].join('\n')), report.join('\n'));
+    }
+
+    const newCommit = createCommit({
+        message,
+        parentId: currentHeadId,
+        secondParentId: null,
+        timestamp: getNextTimestamp(state),
+        author,
+        tree: merged.tree
+    });
+
+    return {
+        newState: {
+            ...state,
+            commits: [...state.commits, newCommit],
+            ...moveHead(state, newCommit.id),
+            workingTree: switched.workingTree,
+            index: switched.index
+        },
+        output: [...report, `[${state.head.type === 'branch' ? state.head.ref : 'detached HEAD'}] ${newCommit.id} ${subjectOf(message)}`].join('\n'),
+        success: true
+    };
+};
 
-            const newBranches = state.branches.map(b =>
-                b.name === state.head.ref ? { ...b, commitId: sourceCommitId } : b
-            );
+const PICK_OPTIONS: CommandOption[] = [
+    { flags: ['--continue'], description: 'resume after resolving conflicts' },
+    { flags: ['--abort'], description: 'cancel and return to the pre-sequence state' },
+    { flags: ['--skip'], description: 'skip the current commit and continue' },
+    { flags: ['--no-edit'], description: 'do not edit the commit message' }
+];
+
+const revertCommand: GitCommand = {
+    name: 'revert',
+    summary: 'Revert some existing commits',
+    usage: ['git revert <commit>', 'git revert (--continue | --skip | --abort)'],
+    options: PICK_OPTIONS,
+    category: 'Advanced',
+    examples: [
+        { cmd: 'git revert <commit>', desc: 'Undo a commit safely' }
+    ],
+    run: runPick('revert')
+};
 
-            return {
-                newState: {
-                    ...state,
-                    branches: newBranches
-                },
-                output: `Fast-forward merge: ${state.head.ref} is now at ${sourceCommitId.substring(0, 7)}`,
-                success: true
-            };
-        } else {
+const cherryPickCommand: GitCommand = {
+    name: 'cherry-pick',
+    summary: 'Apply the changes introduced by some existing commits',
+    usage: ['git cherry-pick <commit>', 'git cherry-pick (--continue | --skip | --abort)'],
+    options: PICK_OPTIONS,
+    category: 'Advanced',
+    examples: [
+        { cmd: 'git cherry-pick <commit>', desc: 'Copy a specific commit' }
+    ],
+    run: runPick('cherry-pick')
+};
 
-            const newCommit: Commit = {
-                id: generateShortId(),
-                message: `Merge ${sourceName} into ${state.head.ref}`,
-                parentId: currentHeadId,
-                secondParentId: sourceCommitId,
-                timestamp: getNextTimestamp(state),
-                author: 'User'
-            };
+const rebaseCommand: GitCommand = {
+    name: 'rebase',
+    summary: 'Reapply commits on top of another base tip',
+    usage: ['git rebase [-i] [-r] [--onto <newbase>] [<upstream> [<branch>]]', 'git rebase --continue | --abort | --skip | --edit-todo'],
+    options: [
+        { flags: ['--onto'], arg: '<revision>', key: 'onto', description: 'rebase onto given branch instead of upstream' },
+        { flags: ['-i', '--interactive'], description: 'let the user edit the list of commits to rebase' },
+        { flags: ['-r', '--rebase-merges'], description: 'try to rebase merges instead of skipping them' },
+        { flags: ['--reapply-cherry-picks'], description: 'apply all changes, even those already present upstream' },
+        { flags: ['--continue'], description: 'continue' },
+        { flags: ['--abort'], description: 'abort and check out the original branch' },
+        { flags: ['--skip'], description: 'skip current patch and continue' },
+        { flags: ['--edit-todo'], description: 'edit the todo list during an interactive rebase' }
+    ],
+    category: 'Advanced',
+    examples: [
+        { cmd: 'git rebase <branch>', desc: 'Reapply commits on top of another branch' },
+        { cmd: 'git rebase -i <branch>', desc: 'Edit, reorder or squash commits interactively' },
+        { cmd: 'git rebase --onto <newbase> <oldbase>', desc: 'Move the commits after <oldbase> onto <newbase>' },
+        { cmd: 'git rebase --continue', desc: 'Resume a stopped rebase (--skip, --abort)' }
+    ],
+    run: ({ state, opts, positional, has }) => {
+        const unresolved = unresolvedError(state);
+        if (unresolved && !state.rebase) return fail(state, gitError('unmerged-files', unresolved));
 
-            const newBranches = state.branches.map(b =>
-                b.name === state.head.ref ? { ...b, commitId: newCommit.id } : b
-            );
+        const rebase = state.rebase;
+        const control = ['--continue', '--abort', '--skip', '--edit-todo'].find(flag => has(flag));
+        if (control && !rebase) return fail(state, gitError('no-operation', 'fatal: No rebase in progress?'));
 
+        if (rebase && control === '--abort') {
+            const origTree = getCommitTree(state, rebase.origHeadId);
+            const tracked = Array.from(new Set([...Object.keys(state.index), ...Object.keys(origTree)]));
             return {
                 newState: {
                     ...state,
-                    commits: [...state.commits, newCommit],
-                    branches: newBranches
+                    head: rebase.branch ? { type: 'branch', ref: rebase.branch } : { type: 'commit', ref: rebase.origHeadId },
+                    index: origTree,
+                    workingTree: copyPaths(state.workingTree, origTree, tracked),
+                    conflicts: [],
+                    rebase: null
                 },
-                output: `Merged ${sourceName} into ${state.head.ref}`,
+                output: '',
                 success: true
             };
         }
-    }
-
 
-    if (subCmd === 'reset') {
-        const mode = parts[2];
-        const targetRef = parts[3] || parts[2];
-
-        let actualTarget = targetRef;
-        if (mode !== '--hard' && parts.length === 3) {
-            actualTarget = parts[2];
+        if (rebase && control === '--edit-todo') {
+            return { newState: { ...state, rebase: { ...rebase, editingTodo: true } }, output: 'hint: Waiting for your editor to close the file...', success: true };
         }
-        if (mode === '--hard') actualTarget = parts[3];
 
-        if (state.head.type !== 'branch') {
-            return { newState: state, output: 'Resetting in detached HEAD is just checkout.', success: false };
+        if (rebase && control === '--skip') {
+            const headTree = getCommitTree(state, getHeadCommitId(state));
+            const tracked = Array.from(new Set([...Object.keys(state.index), ...Object.keys(headTree)]));
+            return runRebase({
+                ...state,
+                index: headTree,
+                workingTree: copyPaths(state.workingTree, headTree, tracked),
+                conflicts: [],
+                rebase: { ...rebase, stopped: null, editingTodo: false }
+            });
         }
 
-        let targetId = resolveRef(state, actualTarget);
+        if (rebase && control === '--continue') {
+            if (rebase.editingTodo) {
+                const submitted = submitRebaseTodo(state, rebase.todo);
+                return submitted.success ? runRebase(submitted.newState) : submitted;
+            }
+            if (state.conflicts.length > 0) {
+                return fail(state, gitError('unmerged-files', `${state.conflicts.map(c => `${c.path}: needs merge`).join('\n')}\nYou must edit all merge conflicts and then\nmark them as resolved using git add`));
+            }
 
-        if (!targetId && actualTarget.includes('~')) {
-            const [base, countStr] = actualTarget.split('~');
-            if (base === 'HEAD') {
-                let curr = getHeadCommitId(state);
-                let count = parseInt(countStr) || 1;
-                while (count > 0 && curr) {
-                    const c = state.commits.find(x => x.id === curr);
-                    if (c && c.parentId) {
-                        curr = c.parentId;
-                        count--;
-                    } else {
-                        break;
-                    }
-                }
-                if (count === 0) targetId = curr;
+            const headTree = getCommitTree(state, getHeadCommitId(state));
+            const resumed: GitState = { ...state, rebase: { ...rebase, stopped: null } };
+            if (rebase.stopped?.reason === 'conflict') {
+                // The user may already have committed the resolution themselves
+                return runRebase(treesEqual(state.index, headTree) ? resumed : commitRebaseItem(resumed, rebase.stopped.item, state.index));
             }
+            if (!treesEqual(state.index, headTree)) {
+                return fail(state, gitError('dirty-worktree', `error: you have staged changes in your working tree\nIf these changes are meant to be squashed into the previous commit, run:\n\n  git commit --amend\n\nIf they are meant to go into a new commit, run:\n\n  git commit\n\nIn both cases, once you're done, continue with:\n\n  git rebase --continue`));
+            }
+            return runRebase(resumed);
         }
 
-        if (!targetId) return { newState: state, output: `Could not resolve ${actualTarget}`, success: false };
-
-        const newBranches = state.branches.map(b =>
-            b.name === state.head.ref ? { ...b, commitId: targetId! } : b
-        );
-
-        return {
-            newState: { ...state, branches: newBranches },
-            output: `HEAD is now at ${targetId.substring(0, 7)}`,
-            success: true
+        if (rebase) {
+            return fail(state, gitError('operation-in-progress', `fatal: It seems that there is already a rebase-merge directory, and\nI wonder if you are in the middle of another rebase.  If that is the\ncase, please try\n\tgit rebase (--continue | --abort | --skip)`));
         }
-    }
 
+        const interactive = has('-i', '--interactive');
+        const rebaseMerges = has('-r', '--rebase-merges');
+        const [upstreamArg, branchArg] = positional;
+        const tracking = state.head.type === 'branch' ? getUpstreamName(state, state.head.ref) : null;
+        const upstreamRef = upstreamArg ?? tracking;
+        if (!upstreamRef) {
+            return fail(state, gitError('no-upstream', 'There is no tracking information for the current branch.\nPlease specify which branch you want to rebase against.'));
+        }
+        const upstreamId = resolveRef(state, upstreamRef);
+        if (!upstreamId) return fail(state, gitError('bad-revision', revisionError(state, upstreamRef, `fatal: invalid upstream '${upstreamRef}'`)));
+        const ontoRef = opts.values.onto?.[0] ?? upstreamRef;
+        const ontoId = resolveRef(state, ontoRef);
+        if (!ontoId) return fail(state, gitError('bad-revision', revisionError(state, ontoRef, `fatal: Does not point to a valid commit '${ontoRef}'`)));
+
+        // `git rebase <upstream> <branch>` rebases that branch instead of HEAD
+        const currentTipId = branchArg ? resolveRef(state, branchArg) : getHeadCommitId(state);
+        if (!currentTipId) return fail(state, gitError('bad-revision', revisionError(state, branchArg, `fatal: no such branch/commit '${branchArg}'`)));
+        const branchName = branchArg ? (state.branches.some(b => b.name === branchArg) ? branchArg : null) : state.head.type === 'branch' ? state.head.ref : null;
+
+        const headTree = getCommitTree(state, getHeadCommitId(state));
+        if (!treesEqual(state.index, headTree)) {
+            return fail(state, gitError('dirty-worktree', 'error: cannot rebase: Your index contains uncommitted changes.\nerror: Please commit or stash them.'));
+        }
+        if (changedPaths(state.index, state.workingTree).some(p => state.index[p] !== undefined)) {
+            return fail(state, gitError('dirty-worktree', 'error: cannot rebase: You have unstaged changes.\nerror: Please commit or stash them.'));
+        }
 
-    if (subCmd === 'revert') {
-        const targetRef = parts[2];
-        const targetId = resolveRef(state, targetRef);
-        if (!targetId) return { newState: state, output: `Bad revision '${targetRef}'`, success: false };
+        // The commits to replay are upstream..tip, the ones only the tip has
+        const tipReachable = getReachable(state, currentTipId);
+        const upstreamReachable = getReachable(state, upstreamId);
+        const range = new Set(Array.from(tipReachable).filter(id => !upstreamReachable.has(id)));
+        const ontoReachable = getReachable(state, ontoId);
+        if (!interactive && isAncestor(state, ontoId, currentTipId) && Array.from(tipReachable).every(id => ontoReachable.has(id) !== range.has(id))) {
+            const tipTree = getCommitTree(state, currentTipId);
+            const switched: GitState = branchName
+                ? { ...state, head: { type: 'branch', ref: branchName }, workingTree: applyTreeChange(state.workingTree, state.index, tipTree), index: tipTree }
+                : state;
+            return { newState: switched, output: `Current branch ${branchName ?? 'HEAD'} is up to date.`, success: true };
+        }
 
-        const currentHeadId = getHeadCommitId(state);
-        const targetCommit = state.commits.find(c => c.id === targetId);
+        // Commits whose change upstream already has are left out, like git
+        // does by comparing patch ids
+        const patchIdOf = (c: Commit) => patchId(diffTrees(getCommitTree(state, c.parentId), c.tree));
+        const upstreamPatches = new Set(state.commits
+            .filter(c => upstreamReachable.has(c.id) && !tipReachable.has(c.id) && !c.secondParentId)
+            .map(patchIdOf));
+        const ordered = sortParentsFirst(state, range, currentTipId);
+        const skipped = has('--reapply-cherry-picks') ? [] : ordered.filter(c => !c.secondParentId && upstreamPatches.has(patchIdOf(c)));
+        const commitsToMove = ordered.filter(c => !skipped.includes(c) && (rebaseMerges || !c.secondParentId));
+        const warnings = skipped.map(c => `warning: skipped previously applied commit ${c.id.substring(0, 7)}`);
+        if (skipped.length > 0) {
+            warnings.push('hint: use --reapply-cherry-picks to include skipped commits', 'hint: Disable this message with "git config advice.skippedCherryPicks false"');
+        }
 
-        const newCommit: Commit = {
-            id: generateShortId(),
-            message: `Revert "${targetCommit?.message}"`,
-            parentId: currentHeadId,
-            secondParentId: null,
-            timestamp: getNextTimestamp(state),
-            author: 'User'
+        const started: GitState = {
+            ...state,
+            origHead: currentTipId,
+            rebase: {
+                branch: branchName,
+                ontoId,
+                upstreamId,
+                origHeadId: currentTipId,
+                interactive,
+                rebaseMerges,
+                rewritten: {},
+                todo: commitsToMove.map(c => ({ action: 'pick', commitId: c.id, message: c.message })),
+                done: [],
+                editingTodo: interactive,
+                stopped: null
+            }
         };
+        if (interactive) return { newState: started, output: [...warnings, 'hint: Waiting for your editor to close the file...'].join('\n'), success: true };
+        const result = runRebase(checkoutRebaseOnto(started));
+        return { ...result, output: [...warnings, result.output].filter(Boolean).join('\n') };
+    }
+};
 
-        let newBranches = [...state.branches];
-        if (state.head.type === 'branch') {
-            newBranches = newBranches.map((b) =>
-                b.name === state.head.ref ? { ...b, commitId: newCommit.id } : b
-            );
+const tagCommand: GitCommand = {
+    name: 'tag',
+    summary: 'Create, list, delete or verify a tag object',
+    usage: ['git tag [-a] [-f] [-m <msg>] <tagname> [<commit>]', 'git tag -d <tagname>...', 'git tag [-n[<num>]] -l [<pattern>...]'],
+    options: [
+        { flags: ['-l', '--list'], description: 'list tag names' },
+        { flags: ['-n'], description: 'print lines of each tag message' },
+        { flags: ['-d', '--delete'], description: 'delete tags' },
+        { flags: ['-a', '--annotate'], description: 'annotated tag, needs a message' },
+        { flags: ['-m', '--message'], arg: '<message>', key: 'message', description: 'tag message' },
+        { flags: ['-f', '--force'], description: 'replace the tag if exists' }
+    ],
+    category: 'Advanced',
+    examples: [
+        { cmd: 'git tag <name>', desc: 'Create a tag at current commit' },
+        { cmd: 'git tag -a v1.0 -m "msg"', desc: 'Create an annotated release tag' },
+        { cmd: 'git tag -l "v1.*"', desc: 'List tags matching a pattern' },
+        { cmd: 'git tag -d <name>', desc: 'Delete a tag' }
+    ],
+    run: ({ state, opts, positional, has }) => {
+        if (has('-d', '--delete')) {
+            const lines: string[] = [];
+            let tags = state.tags;
+            let error: GitError | undefined;
+            for (const name of positional) {
+                const tag = tags.find(t => t.name === name);
+                if (!tag) {
+                    error = gitError('not-found', `error: tag '${name}' not found.`);
+                    lines.push(formatError(error));
+                    continue;
+                }
+                tags = tags.filter(t => t.name !== name);
+                lines.push(`Deleted tag '${name}' (was ${tag.commitId.substring(0, 7)})`);
+            }
+            return { newState: { ...state, tags }, output: lines.join('\n'), success: !error, error };
         }
 
-        return {
-            newState: {
-                ...state,
-                commits: [...state.commits, newCommit],
-                branches: newBranches
-            },
-            output: `[${state.head.ref}] ${newCommit.id} Revert "${targetCommit?.message}"`,
-            success: true
+        if (positional.length === 0 || has('-l', '--list')) {
+            const patterns = positional.map(globToRegExp);
+            const lines = [...state.tags]
+                .sort((a, b) => (a.name < b.name ? -1 : 1))
+                .filter(t => patterns.length === 0 || patterns.some(p => p.test(t.name)))
+                .map(t => {
+                    if (!has('-n')) return t.name;
+                    // -n shows the annotation, or the commit subject for lightweight tags
+                    const message = t.annotation?.message ?? state.commits.find(c => c.id === t.commitId)?.message ?? '';
+                    return `${t.name.padEnd(15)} ${subjectOf(message)}`;
+                });
+            return { newState: state, output: lines.join('\n'), success: true };
         }
-    }
-
 
-    if (subCmd === 'cherry-pick') {
-        const targetRef = parts[2];
-        const targetId = resolveRef(state, targetRef);
-        if (!targetId) return { newState: state, output: `Bad revision`, success: false };
+        const [tagName, target = 'HEAD'] = positional;
+        if (!isValidRefName(tagName)) return fail(state, gitError('invalid-name', `fatal: '${tagName}' is not a valid tag name.`));
+        const existing = state.tags.find(t => t.name === tagName);
+        if (existing && !has('-f', '--force')) return fail(state, gitError('already-exists', `fatal: tag '${tagName}' already exists`));
 
-        const sourceCommit = state.commits.find(c => c.id === targetId);
-        if (!sourceCommit) return { newState: state, output: `Commit not found`, success: false };
+        const commitId = resolveRef(state, target);
+        if (!commitId) return fail(state, gitError('bad-revision', revisionError(state, target, `fatal: Failed to resolve '${target}' as a valid ref.`)));
 
-        const currentHeadId = getHeadCommitId(state);
-        const newCommit: Commit = {
-            id: generateShortId(),
-            message: sourceCommit.message,
-            parentId: currentHeadId,
-            secondParentId: null,
-            timestamp: getNextTimestamp(state),
-            author: 'User'
-        };
-
-        let newBranches = [...state.branches];
-        if (state.head.type === 'branch') {
-            newBranches = newBranches.map(b =>
-                b.name === state.head.ref ? { ...b, commitId: newCommit.id } : b
-            );
+        const message = opts.values.message?.join('\n\n');
+        if (has('-m', '--message') && message === undefined) return fail(state, gitError('usage', "error: switch `m' requires a value"));
+        if (has('-a', '--annotate') && message === undefined) {
+            return fail(state, gitError('usage', 'error: Terminal is dumb, but EDITOR unset\nPlease supply the message using either -m or -F option.'));
         }
 
+        // A message always makes an annotated tag, with or without -a
+        const tag: Tag = message === undefined
+            ? { name: tagName, commitId }
+            : { name: tagName, commitId, annotation: { tagger: getIdentity(state), timestamp: getNextTimestamp(state), message } };
         return {
-            newState: {
-                ...state,
-                commits: [...state.commits, newCommit],
-                branches: newBranches
-            },
-            output: `[${state.head.ref}] ${newCommit.id} ${newCommit.message}`,
+            newState: { ...state, tags: [...state.tags.filter(t => t.name !== tagName), tag] },
+            output: existing ? `Updated tag '${tagName}' (was ${existing.commitId.substring(0, 7)})` : `Created tag ${tagName}`,
             success: true
         };
     }
+};
 
+const describeCommand: GitCommand = {
+    name: 'describe',
+    summary: 'Give an object a human readable name based on an available ref',
+    usage: ['git describe [--tags] [--always] [--long] [--abbrev=<n>] [<commit-ish>]'],
+    options: [
+        { flags: ['--tags'], description: 'use any tag, even unannotated' },
+        { flags: ['--always'], description: 'show abbreviated commit object as fallback' },
+        { flags: ['--long'], description: 'always use long format' },
+        { flags: ['--abbrev'], arg: '<n>', description: 'use <n> digits to display object names' }
+    ],
+    category: 'Advanced',
+    examples: [
+        { cmd: 'git describe --tags', desc: 'Name HEAD relative to the nearest tag' }
+    ],
+    run: ({ state, opts, positional, has }) => {
+        const target = positional[0] ?? 'HEAD';
+        const commitId = resolveRef(state, target);
+        if (!commitId) return fail(state, gitError('bad-revision', `fatal: Not a valid object name ${target}`));
+
+        // Without --tags only annotated tags count, like git. Annotated tags
+        // come first so they win over lightweight ones at the same distance.
+        const candidates = state.tags
+            .filter(t => has('--tags') || t.annotation)
+            .sort((a, b) => Number(!!b.annotation) - Number(!!a.annotation));
+        const history = getReachable(state, commitId);
+        let best: { tag: Tag; depth: number } | null = null;
+        for (const tag of candidates) {
+            if (!history.has(tag.commitId)) continue;
+            const tagHistory = getReachable(state, tag.commitId);
+            const depth = Array.from(history).filter(id => !tagHistory.has(id)).length;
+            if (!best || depth < best.depth) best = { tag, depth };
+        }
 
-    if (subCmd === 'tag') {
-        const tagName = parts[2];
-        if (!tagName) return { newState: state, output: 'Tag name required', success: false };
+        if (!best) {
+            if (has('--always')) return { newState: state, output: commitId.substring(0, 7), success: true };
+            const lightweight = state.tags.some(t => history.has(t.commitId));
+            return fail(state, gitError('not-found', lightweight
+                ? `fatal: No annotated tags can describe '${commitId}'.\nHowever, there were unannotated tags: try --tags.`
+                : 'fatal: No names found, cannot describe anything.'));
+        }
 
-        const currentHeadId = getHeadCommitId(state);
-        return {
-            newState: {
-                ...state,
-                tags: [...state.tags, { name: tagName, commitId: currentHeadId }]
-            },
-            output: `Created tag ${tagName}`,
-            success: true
-        };
+        const exact = best.depth === 0 && !has('--long');
+        const output = exact || opts.values['--abbrev']?.[0] === '0'
+            ? best.tag.name
+            : `${best.tag.name}-${best.depth}-g${commitId.substring(0, 7)}`;
+        return { newState: state, output, success: true };
     }
+};
 
+const stashCommand: GitCommand = {
+    name: 'stash',
+    summary: 'Stash the changes in a dirty working directory away',
+    usage: [
+        'git stash list',
+        'git stash show [-p] [<stash>]',
+        'git stash drop [<stash>]',
+        'git stash (pop | apply) [--index] [<stash>]',
+        'git stash clear',
+        'git stash [push [-u] [-m <message>] [--] [<pathspec>...]]'
+    ],
+    options: [
+        { flags: ['-u', '--include-untracked'], description: 'include untracked files in the stash' },
+        { flags: ['-m', '--message'], arg: '<message>', key: 'message', description: 'stash message' },
+        { flags: ['--index'], description: 'attempt to recreate the index' },
+        { flags: ['-p', '--patch'], description: 'show the stash as a patch' }
+    ],
+    category: 'Advanced',
+    examples: [
+        { cmd: 'git stash', desc: 'Shelve uncommitted changes' },
+        { cmd: 'git stash pop', desc: 'Re-apply the latest stash and drop it' },
+        { cmd: 'git stash list', desc: 'List stashed changes' }
+    ],
+    run: ({ state, opts, positional, has }) => {
+        const [action = 'push', ...args] = positional;
+        const headId = getHeadCommitId(state);
+        const headTree = getCommitTree(state, headId);
+
+        if (action === 'push' || action === 'save') {
+            if (!headId) return fail(state, gitError('nothing-to-commit', 'You do not have the initial commit yet'));
+            const includeUntracked = has('-u', '--include-untracked');
+            const pathspecs = action === 'push' ? [...args, ...opts.paths] : [];
+            const { paths: selected, unmatched } = expandPathspecs(pathspecs, state.workingTree, state.index, headTree);
+            if (unmatched) {
+                return fail(state, gitError('pathspec', `error: pathspec '${unmatched}' did not match any file(s) known to git\nDid you forget to 'git add'?`));
+            }
+            // With a pathspec only the matching paths are stashed and reset
+            const inScope = (paths: string[]) => (pathspecs.length > 0 ? paths.filter(p => selected.includes(p)) : paths);
+            const tracked = copyPaths(state.workingTree, {}, Object.keys(state.workingTree).filter(p => state.index[p] === undefined));
+            const indexPaths = inScope(Object.keys({ ...state.index, ...headTree }));
+            const worktreePaths = inScope(Object.keys({ ...(includeUntracked ? state.workingTree : tracked), ...state.index, ...headTree }));
+            const stashedIndex = copyPaths(headTree, state.index, indexPaths);
+            const stashedTree = copyPaths(headTree, includeUntracked ? state.workingTree : tracked, worktreePaths);
+            if (treesEqual(stashedIndex, headTree) && treesEqual(stashedTree, headTree)) {
+                return { newState: state, output: 'No local changes to save', success: true };
+            }
 
-    if (subCmd === 'rebase') {
-        const baseRef = parts[2];
-        const baseId = resolveRef(state, baseRef);
-        if (!baseId) return { newState: state, output: `Invalid base`, success: false };
-
-        if (state.head.type !== 'branch') return { newState: state, output: `Must be on branch`, success: false };
-        const currentBranchName = state.head.ref;
-        const currentTipId = getHeadCommitId(state);
+            const head = state.commits.find(c => c.id === headId);
+            const branchName = state.head.type === 'branch' ? state.head.ref : '(no branch)';
+            const summary = `${headId.substring(0, 7)} ${head?.message ?? ''}`;
+            const customMessage = opts.values.message?.join('\n\n') ?? (action === 'save' && args.length > 0 ? args.join(' ') : undefined);
+            const message = customMessage ? `On ${branchName}: ${customMessage}` : `WIP on ${branchName}: ${summary}`;
+
+            const timestamp = getNextTimestamp(state);
+            const author = getIdentity(state);
+            const indexCommit = createCommit({
+                message: `index on ${branchName}: ${summary}`,
+                parentId: headId,
+                secondParentId: null,
+                timestamp,
+                author,
+                tree: stashedIndex
+            });
+            const stashCommit = createCommit({
+                message,
+                parentId: headId,
+                secondParentId: indexCommit.id,
+                timestamp: timestamp + 1,
+                author,
+                tree: stashedTree
+            });
 
+            return {
+                newState: {
+                    ...state,
+                    commits: [...state.commits, indexCommit, stashCommit],
+                    stash: [stashCommit.id, ...state.stash],
+                    index: copyPaths(state.index, headTree, indexPaths),
+                    workingTree: copyPaths(state.workingTree, headTree, worktreePaths)
+                },
+                output: `Saved working directory and index state ${message}`,
+                success: true
+            };
+        }
 
-        const getLineage = (start: string): Set<string> => {
-            const s = new Set<string>();
-            let curr: string | null | undefined = start;
-            while (curr) {
-                s.add(curr);
-                const c = state.commits.find(x => x.id === curr);
-                curr = c?.parentId;
-            }
-            return s;
-        };
+        if (action === 'list') {
+            const lines = state.stash.map((id, n) => `stash@{${n}}: ${state.commits.find(c => c.id === id)?.message}`);
+            return { newState: state, output: lines.join('\n'), success: true };
+        }
 
-        const baseLineage = getLineage(baseId);
-        const commitsToMove: Commit[] = [];
-        let pointer: string | null | undefined = currentTipId;
-        while (pointer && !baseLineage.has(pointer)) {
-            const c = state.commits.find(x => x.id === pointer);
-            if (c) commitsToMove.push(c);
-            pointer = c?.parentId;
+        if (action === 'clear') {
+            return { newState: { ...state, stash: [] }, output: '', success: true };
         }
-        commitsToMove.reverse();
 
-        if (commitsToMove.length === 0) {
-            return { newState: state, output: `Already up to date.`, success: true };
+        if (!['show', 'apply', 'pop', 'drop'].includes(action)) {
+            return fail(state, gitError('usage', `error: unknown subcommand: \`${action}'`));
         }
 
-        let newParentId = baseId;
-        const newCommits: Commit[] = [];
+        if (state.stash.length === 0) {
+            return fail(state, gitError('not-found', 'No stash entries found.'));
+        }
+        const refArg = args[0] ?? 'stash@{0}';
+        const stashIndex = parseStashRef(refArg);
+        const stashId = stashIndex === null ? undefined : state.stash[stashIndex];
+        const stashCommit = state.commits.find(c => c.id === stashId);
+        if (stashIndex === null || !stashCommit) {
+            return fail(state, gitError('bad-revision', `error: ${refArg} is not a valid reference`));
+        }
+        const refName = `stash@{${stashIndex}}`;
+        const baseTree = getCommitTree(state, stashCommit.parentId);
+        const remaining = state.stash.filter((_, n) => n !== stashIndex);
+
+        if (action === 'show') {
+            const diffs = diffTrees(baseTree, stashCommit.tree);
+            const patch = has('-p', '--patch');
+            return { newState: state, output: patch ? formatUnifiedDiff(diffs) : formatDiffStat(diffs), success: true };
+        }
 
-        for (const c of commitsToMove) {
-            const copy: Commit = {
-                id: generateShortId(),
-                message: c.message,
-                parentId: newParentId,
-                secondParentId: null,
-                timestamp: getNextTimestamp(state) + newCommits.length,
-                author: c.author
-            };
-            newCommits.push(copy);
-            newParentId = copy.id;
+        if (action === 'drop') {
+            return { newState: { ...state, stash: remaining }, output: `Dropped ${refName} (${stashCommit.id})`, success: true };
         }
 
-        const newBranches = state.branches.map(b =>
-            b.name === currentBranchName ? { ...b, commitId: newParentId } : b
-        );
+        const stashChanges = changedPaths(baseTree, stashCommit.tree);
+        const dirty = stashChanges.filter(p => state.workingTree[p] !== headTree[p] || state.index[p] !== headTree[p]);
+        if (dirty.length > 0) {
+            return fail(state, gitError('would-overwrite', overwriteError(dirty, 'merge')));
+        }
 
-        return {
-            newState: {
-                ...state,
-                commits: [...state.commits, ...newCommits],
-                branches: newBranches
-            },
-            output: `Rebased refs/heads/${currentBranchName}`,
-            success: true
+        const merged = mergeTrees(baseTree, headTree, stashCommit.tree, { ours: 'Updated upstream', theirs: 'Stashed changes' });
+        const indexTree = getCommitTree(state, stashCommit.secondParentId);
+        const index = has('--index')
+            ? applyTreeChange(state.index, baseTree, indexTree)
+            : copyPaths(state.index, indexTree, Object.keys(indexTree).filter(p => baseTree[p] === undefined && merged.tree[p] === indexTree[p]));
+        const applied: GitState = {
+            ...state,
+            workingTree: applyTreeChange(state.workingTree, headTree, merged.tree),
+            index,
+            conflicts: merged.conflicts,
+            stash: action === 'pop' && merged.conflicts.length === 0 ? remaining : state.stash
         };
+
+        if (merged.conflicts.length > 0) {
+            const report = formatConflictReport(merged.conflicts, merged.autoMerged, 'Stashed changes');
+            const kept = action === 'pop' ? '\nThe stash entry is kept in case you need it again.' : '';
+            return fail(applied, gitError('conflict', `${report.join('\n')}${kept}`));
+        }
+
+        const dropped = action === 'pop' ? `\nDropped ${refName} (${stashCommit.id})` : '';
+        return { newState: applied, output: `${formatStatus(applied, 'long', false)}${dropped}`, success: true };
     }
+};
 
-    return { newState: state, output: `git: '${subCmd}' is not a git command.`, success: false };
+const helpCommand: GitCommand = {
+    name: 'help',
+    summary: 'Display help information about Git',
+    usage: ['git help [<command>]'],
+    options: [],
+    category: 'Essentials',
+    examples: [
+        { cmd: 'git help', desc: 'List every command' },
+        { cmd: 'git <command> -h', desc: "Show a command's usage and options" }
+    ],
+    run: ({ state, positional }) => {
+        const [name] = positional;
+        if (!name) return { newState: state, output: formatCommandList(COMMANDS), success: true };
+        const command = findCommand(name);
+        const alias = getConfig(state, `alias.${name}`);
+        if (!command && alias !== undefined) return { newState: state, output: `'${name}' is aliased to '${alias}'`, success: true };
+        if (!command) return fail(state, gitError('command-not-found', `git: '${name}' is not a git command. See 'git help'.`, 1));
+        return { newState: state, output: formatCommandHelp(command), success: true };
+    }
 };
 
+// Every git subcommand the simulator knows, in the order `git help` and the
+// command reference list them
+export const COMMANDS: GitCommand[] = [
+    initCommand, configCommand, addCommand, restoreCommand, rmCommand, commitCommand, statusCommand, logCommand,
+    diffCommand, showCommand, branchCommand, checkoutCommand, switchCommand, mergeCommand, remoteCommand, pushCommand,
+    fetchCommand, pullCommand, cloneCommand, resetCommand, reflogCommand, revertCommand, cherryPickCommand, rebaseCommand,
+    tagCommand, describeCommand, stashCommand, helpCommand
+];
+
+const findCommand = (name: string | undefined): GitCommand | undefined => COMMANDS.find(c => c.name === name);
+
 export const PRACTICE_LESSON: Lesson = {
     id: 'practice',
     section: 'Playground',
@@ -705,27 +3566,31 @@ export const LESSONS: Lesson[] = [
         description: 'Every Git journey starts here. `git init` creates a new repository.',
         task: 'Run git init',
         hint: 'git init',
-        initialState: { commits: [], branches: [], tags: [], head: { type: 'branch', ref: 'main' } },
+        initialState: seedState({ commits: [], branches: [], tags: [], head: { type: 'branch', ref: 'main' } }),
         checkSuccess: (state) => true
     },
     {
         id: '2_add',
         section: 'The Starting Point',
         title: '2. Staging Changes',
-        description: 'Git has a staging area. `git add .` moves changes there before committing.',
+        description: 'Git has a staging area. `git add .` moves changes there before committing. You just created `index.html` - try `ls` and `cat index.html` to see it.',
         task: 'Stage all changes',
         hint: 'git add .',
-        initialState: INITIAL_STATE,
-        checkSuccess: (state) => true
+        initialState: { ...INITIAL_STATE, workingTree: { ...README, 'index.html': '<h1>Hello</h1>\n' } },
+        checkSuccess: (state) => state.index['index.html'] !== undefined
     },
     {
         id: '3_commit',
         section: 'The Starting Point',
         title: '3. First Commit',
-        description: 'Save your work permanently with `git commit`.',
+        description: 'Save your work permanently with `git commit`. The commit records a snapshot of everything in the staging area - `index.html` is already staged.',
         task: 'Commit with message "First"',
         hint: 'git commit -m "First"',
-        initialState: INITIAL_STATE,
+        initialState: {
+            ...INITIAL_STATE,
+            workingTree: { ...README, 'index.html': '<h1>Hello</h1>\n' },
+            index: { ...README, 'index.html': '<h1>Hello</h1>\n' }
+        },
         checkSuccess: (state) => state.commits.length > 1
     },
     {
@@ -735,12 +3600,12 @@ export const LESSONS: Lesson[] = [
         description: 'Made a typo in your commit message? `git commit --amend` lets you fix the most recent commit.',
         task: 'Amend the last commit message to "Corrected"',
         hint: 'git commit --amend -m "Corrected"',
-        initialState: {
-            commits: [{ id: 'c1', message: 'Typo!', parentId: null, secondParentId: null, timestamp: Date.now(), author: 'User' }],
+        initialState: seedState({
+            commits: [{ id: 'c1', message: 'Typo!', parentId: null, secondParentId: null, timestamp: 1000, author: 'User' }],
             branches: [{ name: 'main', commitId: 'c1' }],
             tags: [],
             head: { type: 'branch', ref: 'main' }
-        },
+        }),
         checkSuccess: (state) => {
             const c = state.commits.find(x => x.id === state.branches[0].commitId);
             return c?.message === 'Corrected';
@@ -753,12 +3618,12 @@ export const LESSONS: Lesson[] = [
         description: 'See where you have been with `git log`.',
         task: 'Run git log',
         hint: 'git log',
-        initialState: {
-            commits: [{ id: 'a', message: 'Start', parentId: null, secondParentId: null, timestamp: Date.now(), author: 'User' }],
+        initialState: seedState({
+            commits: [{ id: 'a', message: 'Start', parentId: null, secondParentId: null, timestamp: 1000, author: 'User' }],
             branches: [{ name: 'main', commitId: 'a' }],
             tags: [],
             head: { type: 'branch', ref: 'main' }
-        },
+        }),
         checkSuccess: (state) => true
     },
 
@@ -780,12 +3645,12 @@ export const LESSONS: Lesson[] = [
         description: 'Use `git checkout` to switch between branches. Switch to the "feature" branch you just created.',
         task: 'Checkout "feature"',
         hint: 'git checkout feature',
-        initialState: {
-            commits: [{ id: 'init', message: 'Init', parentId: null, secondParentId: null, timestamp: Date.now(), author: 'User' }],
+        initialState: seedState({
+            commits: [{ id: 'init', message: 'Init', parentId: null, secondParentId: null, timestamp: 1000, author: 'User' }],
             branches: [{ name: 'main', commitId: 'init' }, { name: 'feature', commitId: 'init' }],
             tags: [],
             head: { type: 'branch', ref: 'main' }
-        },
+        }),
         checkSuccess: (state) => state.head.ref === 'feature'
     },
     {
@@ -795,7 +3660,7 @@ export const LESSONS: Lesson[] = [
         description: 'Merge a branch that is directly ahead of current history. It simply moves the pointer.',
         task: 'Merge "feature" into "main"',
         hint: 'git checkout main && git merge feature',
-        initialState: {
+        initialState: seedState({
             commits: [
                 { id: '1', message: 'Start', parentId: null, secondParentId: null, timestamp: 1000, author: 'User' },
                 { id: '2', message: 'Feature Work', parentId: '1', secondParentId: null, timestamp: 2000, author: 'User' }
@@ -806,7 +3671,7 @@ export const LESSONS: Lesson[] = [
             ],
             tags: [],
             head: { type: 'branch', ref: 'main' }
-        },
+        }),
         checkSuccess: (state) => {
             const m = state.branches.find(b => b.name === 'main');
             const f = state.branches.find(b => b.name === 'feature');
@@ -820,11 +3685,11 @@ export const LESSONS: Lesson[] = [
         description: 'Merge branches that have diverged. This creates a dedicated Merge Commit.',
         task: 'Merge "feature" into "main"',
         hint: 'git merge feature',
-        initialState: {
+        initialState: seedState({
             commits: [
                 { id: 'root', message: 'Root', parentId: null, secondParentId: null, timestamp: 1000, author: 'User' },
-                { id: 'm1', message: 'Main Fix', parentId: 'root', secondParentId: null, timestamp: 2000, author: 'User' },
-                { id: 'f1', message: 'New Feature', parentId: 'root', secondParentId: null, timestamp: 3000, author: 'User' }
+                { id: 'm1', message: 'Main Fix', parentId: 'root', secondParentId: null, timestamp: 2000, author: 'User', tree: { ...README, 'app.js': 'start();\n' } },
+                { id: 'f1', message: 'New Feature', parentId: 'root', secondParentId: null, timestamp: 3000, author: 'User', tree: { ...README, 'feature.js': 'export const feature = true;\n' } }
             ],
             branches: [
                 { name: 'main', commitId: 'm1' },
@@ -832,7 +3697,7 @@ export const LESSONS: Lesson[] = [
             ],
             tags: [],
             head: { type: 'branch', ref: 'main' }
-        },
+        }),
         checkSuccess: (state) => state.commits.some(c => c.secondParentId !== null)
     },
     {
@@ -852,7 +3717,7 @@ export const LESSONS: Lesson[] = [
         description: 'You can checkout any commit hash directly. This enters "Detached HEAD" mode.',
         task: 'Checkout the "root" commit',
         hint: 'git checkout root',
-        initialState: {
+        initialState: seedState({
             commits: [
                 { id: 'root', message: 'Root', parentId: null, secondParentId: null, timestamp: 1000, author: 'User' },
                 { id: 'curr', message: 'Current', parentId: 'root', secondParentId: null, timestamp: 2000, author: 'User' }
@@ -860,7 +3725,7 @@ export const LESSONS: Lesson[] = [
             branches: [{ name: 'main', commitId: 'curr' }],
             tags: [],
             head: { type: 'branch', ref: 'main' }
-        },
+        }),
         checkSuccess: (state) => state.head.type === 'commit' && state.head.ref === 'root'
     },
 
@@ -873,7 +3738,7 @@ export const LESSONS: Lesson[] = [
         task: 'Add a remote named origin',
         hint: 'git remote add origin https://github.com/user/repo.git',
         initialState: INITIAL_STATE,
-        checkSuccess: (state) => true // Successful execution of command is enough
+        checkSuccess: (state) => !!state.remotes.origin
     },
     {
         id: '13_clone',
@@ -882,7 +3747,7 @@ export const LESSONS: Lesson[] = [
         description: 'Download a remote repository to your local machine. This automatically sets up the "origin" remote.',
         task: 'Clone the repo',
         hint: 'git clone https://github.com/demo/repo',
-        initialState: { commits: [], branches: [], tags: [], head: { type: 'branch', ref: 'main' } },
+        initialState: seedState({ commits: [], branches: [], tags: [], head: { type: 'branch', ref: 'main' } }),
         checkSuccess: (state) => state.commits.length > 0
     },
     {
@@ -892,21 +3757,19 @@ export const LESSONS: Lesson[] = [
         description: 'Upload your local branch commits to the remote repository.',
         task: 'Push main to origin',
         hint: 'git push',
-        initialState: {
+        initialState: seedState({
             commits: [
                 { id: '1', message: 'Shared', parentId: null, secondParentId: null, timestamp: 1000, author: 'Origin' },
                 { id: '2', message: 'My Work', parentId: '1', secondParentId: null, timestamp: 2000, author: 'User' }
             ],
-            branches: [
-                { name: 'main', commitId: '2' },
-                { name: 'origin/main', commitId: '1' }
-            ],
+            branches: [{ name: 'main', commitId: '2' }],
             tags: [],
-            head: { type: 'branch', ref: 'main' }
-        },
+            head: { type: 'branch', ref: 'main' },
+            remotes: { origin: { branches: [{ name: 'main', commitId: '1' }] } }
+        }),
         checkSuccess: (state) => {
             const local = state.branches.find(b => b.name === 'main');
-            const remote = state.branches.find(b => b.name === 'origin/main');
+            const remote = state.remotes.origin?.branches.find(b => b.name === 'main');
             return local?.commitId === remote?.commitId;
         }
     },
@@ -914,22 +3777,37 @@ export const LESSONS: Lesson[] = [
         id: '15_fetch',
         section: 'GitHub Mastery',
         title: '15. Fetching',
-        description: '`git fetch` downloads new data from the remote project but doesn\'t integrate it into your working files yet.',
-        task: 'Fetch changes from origin',
-        hint: 'git fetch',
-        initialState: {
+        description: '`git fetch` downloads whatever is new on the remote: commits, branches and tags. It only updates your remote-tracking branches like `origin/main`; your own branches and files stay exactly as they were.\n\nSince your last fetch a teammate pushed a fix to `main`, started a `feature/api` branch and tagged `v1.0`. Someone also deleted `old-experiment` on GitHub, but your `origin/old-experiment` is still lying around. `--prune` removes remote-tracking branches whose branch is gone.',
+        task: 'Fetch from origin and prune stale branches',
+        hint: 'git fetch --prune',
+        initialState: seedState({
             commits: [{ id: '1', message: 'Init', parentId: null, secondParentId: null, timestamp: 1000, author: 'Origin' }],
-            branches: [
-                { name: 'main', commitId: '1' },
-                { name: 'origin/main', commitId: '1' }
-            ],
+            branches: [{ name: 'main', commitId: '1' }],
             tags: [],
-            head: { type: 'branch', ref: 'main' }
-        },
+            head: { type: 'branch', ref: 'main' },
+            remotes: {
+                origin: {
+                    commits: [
+                        { id: '2', message: 'Fix login bug', parentId: '1', secondParentId: null, timestamp: 2000, author: 'Teammate', tree: { ...README, 'login.js': 'login();\n' } },
+                        { id: '3', message: 'Sketch API client', parentId: '1', secondParentId: null, timestamp: 3000, author: 'Teammate', tree: { ...README, 'api.js': 'fetchAll();\n' } }
+                    ],
+                    branches: [
+                        { name: 'main', commitId: '2' },
+                        { name: 'feature/api', commitId: '3' }
+                    ],
+                    tags: [{ name: 'v1.0', commitId: '2' }]
+                }
+            },
+            remoteBranches: [
+                { name: 'origin/main', commitId: '1' },
+                { name: 'origin/old-experiment', commitId: '1' }
+            ]
+        }),
         checkSuccess: (state) => {
             const local = state.branches.find(b => b.name === 'main');
-            const remote = state.branches.find(b => b.name === 'origin/main');
-            return local?.commitId !== remote?.commitId;
+            const remote = state.remoteBranches.find(b => b.name === 'origin/main');
+            const stale = state.remoteBranches.some(b => b.name === 'origin/old-experiment');
+            return local?.commitId === '1' && remote?.commitId === '2' && !stale;
         }
     },
     {
@@ -939,16 +3817,23 @@ export const LESSONS: Lesson[] = [
         description: '`git pull` is a combination of `git fetch` and `git merge`. It updates your current branch.',
         task: 'Pull changes from origin',
         hint: 'git pull',
-        initialState: {
+        initialState: seedState({
             commits: [{ id: '1', message: 'Init', parentId: null, secondParentId: null, timestamp: 1000, author: 'Origin' }],
-            branches: [
-                { name: 'main', commitId: '1' },
-                { name: 'origin/main', commitId: '1' }
-            ],
+            branches: [{ name: 'main', commitId: '1' }],
             tags: [],
-            head: { type: 'branch', ref: 'main' }
-        },
-        checkSuccess: (state) => state.commits.length > 1 && state.commits.some(c => c.message === 'Remote update')
+            head: { type: 'branch', ref: 'main' },
+            remotes: {
+                origin: {
+                    commits: [{ id: '2', message: 'Remote update', parentId: '1', secondParentId: null, timestamp: 2000, author: 'Teammate', tree: { ...README, 'CHANGELOG.md': '- Remote update\n' } }],
+                    branches: [{ name: 'main', commitId: '2' }]
+                }
+            },
+            remoteBranches: [{ name: 'origin/main', commitId: '1' }]
+        }),
+        checkSuccess: (state) => {
+            const main = state.branches.find(b => b.name === 'main');
+            return !!main && state.commits.some(c => c.id === '2') && isAncestor(state, '2', main.commitId);
+        }
     },
 
     // --- REAL WORLD WORKFLOWS (VS CODE / PROJECT MANAGEMENT) ---
@@ -956,16 +3841,16 @@ export const LESSONS: Lesson[] = [
         id: '20_publish',
         section: 'Real World Workflows',
         title: '20. VS Code: Publish Branch',
-        description: 'In VS Code, the "Publish Branch" button does two things: it adds a remote (if missing) and pushes your local branch upstream. \n\nLet\'s simulate publishing a local project to GitHub for the first time.',
+        description: 'In VS Code, the "Publish Branch" button does two things: it adds a remote (if missing) and pushes your local branch upstream. \n\nThe `-u` flag is the important part: it records `origin/main` as the upstream of `main`, so from then on a plain `git push` or `git pull` knows where to go and the status bar can show how many commits you are ahead (↑) or behind (↓).\n\nLet\'s simulate publishing a local project to GitHub for the first time.',
         task: 'Add remote "origin" AND push main',
         hint: 'git remote add origin https://... && git push -u origin main',
-        initialState: {
-            commits: [{ id: 'init', message: 'Project Start', parentId: null, secondParentId: null, timestamp: Date.now(), author: 'User' }],
+        initialState: seedState({
+            commits: [{ id: 'init', message: 'Project Start', parentId: null, secondParentId: null, timestamp: 1000, author: 'User' }],
             branches: [{ name: 'main', commitId: 'init' }],
             tags: [],
             head: { type: 'branch', ref: 'main' }
-        },
-        checkSuccess: (state) => state.branches.some(b => b.name === 'origin/main')
+        }),
+        checkSuccess: (state) => !!state.remotes.origin?.branches.some(b => b.name === 'main') && state.upstreams.main?.remote === 'origin'
     },
     {
         id: '21_feature_cycle',
@@ -973,21 +3858,19 @@ export const LESSONS: Lesson[] = [
         title: '21. Project: Feature Lifecycle',
         description: 'Manage a full feature cycle like a pro:\n1. Create a branch named `new-login`\n2. Commit some work to it\n3. Push that branch to GitHub\n\nThis is the daily routine of a software engineer.',
         task: 'Branch -> Commit -> Push',
-        hint: 'git checkout -b new-login && git commit -m "Add login" && git push -u origin new-login',
-        initialState: {
+        hint: 'git checkout -b new-login && echo "login()" > login.js && git add login.js && git commit -m "Add login" && git push -u origin new-login',
+        initialState: seedState({
             commits: [
                 { id: 'start', message: 'App v1.0', parentId: null, secondParentId: null, timestamp: 1000, author: 'Origin' }
             ],
-            branches: [
-                { name: 'main', commitId: 'start' },
-                { name: 'origin/main', commitId: 'start' }
-            ],
+            branches: [{ name: 'main', commitId: 'start' }],
             tags: [],
-            head: { type: 'branch', ref: 'main' }
-        },
+            head: { type: 'branch', ref: 'main' },
+            remotes: { origin: { branches: [{ name: 'main', commitId: 'start' }] } }
+        }),
         checkSuccess: (state) => {
             const local = state.branches.find(b => b.name === 'new-login');
-            const remote = state.branches.find(b => b.name === 'origin/new-login');
+            const remote = state.remotes.origin?.branches.find(b => b.name === 'new-login');
             const hasCommits = state.commits.length > 1;
             return !!local && !!remote && hasCommits && local.commitId === remote.commitId;
         }
@@ -996,21 +3879,22 @@ export const LESSONS: Lesson[] = [
         id: '22_hotfix',
         section: 'Real World Workflows',
         title: '22. Project: Hotfix Workflow',
-        description: 'Panic! A bug is in production. \n1. Switch back to `main`\n2. Create a branch `hotfix-v1`\n3. Commit a fix\n4. Merge it back into `main`\n\nThis happens when you are in the middle of other work but need to fix the live site immediately.',
-        task: 'Main -> Branch Hotfix -> Commit -> Merge to Main',
-        hint: 'git checkout main && git checkout -b hotfix-v1 && git commit -m "Fix bug" && git checkout main && git merge hotfix-v1',
-        initialState: {
+        description: 'Panic! A bug is in production, and you have uncommitted edits to `feature.js`.\n1. Put your half-done work aside with `git stash`\n2. Switch back to `main`\n3. Create a branch `hotfix-v1`\n4. Commit a fix\n5. Merge it back into `main`\n\nThis happens when you are in the middle of other work but need to fix the live site immediately. Later, `git checkout feature && git stash pop` brings your work back.',
+        task: 'Stash -> Main -> Branch Hotfix -> Commit -> Merge to Main',
+        hint: 'git stash && git checkout main && git checkout -b hotfix-v1 && echo "fix();" >> app.js && git commit -am "Fix bug" && git checkout main && git merge hotfix-v1',
+        initialState: seedState({
             commits: [
-                { id: 'v1', message: 'Release v1.0', parentId: null, secondParentId: null, timestamp: 1000, author: 'User' },
-                { id: 'wip', message: 'Half-done feature', parentId: 'v1', secondParentId: null, timestamp: 2000, author: 'User' }
+                { id: 'v1', message: 'Release v1.0', parentId: null, secondParentId: null, timestamp: 1000, author: 'User', tree: { ...README, 'app.js': 'start();\n' } },
+                { id: 'wip', message: 'Half-done feature', parentId: 'v1', secondParentId: null, timestamp: 2000, author: 'User', tree: { ...README, 'app.js': 'start();\n', 'feature.js': '// TODO\n' } }
             ],
             branches: [
                 { name: 'main', commitId: 'v1' },
                 { name: 'feature', commitId: 'wip' }
             ],
             tags: [],
-            head: { type: 'branch', ref: 'feature' }
-        },
+            head: { type: 'branch', ref: 'feature' },
+            workingTree: { ...README, 'app.js': 'start();\n', 'feature.js': '// TODO\nexport const half = () => {};\n' }
+        }),
         checkSuccess: (state) => {
             const main = state.branches.find(b => b.name === 'main');
             const tip = state.commits.find(c => c.id === main?.commitId);
@@ -1024,14 +3908,14 @@ export const LESSONS: Lesson[] = [
         description: 'This is the classic scenario: You created a new, empty repository on GitHub and want to push your local project to it.\n\nGitHub provides these 3 exact lines to run:\n\n1. `git remote add origin <url>` (Connects to GitHub)\n2. `git branch -M main` (Renames current branch to main)\n3. `git push -u origin main` (Uploads code)\n\nPerform this sequence to get your code online.',
         task: 'Remote -> Rename -> Push',
         hint: 'git remote add origin https://gh.com/me/repo.git && git branch -M main && git push -u origin main',
-        initialState: {
+        initialState: seedState({
             commits: [{ id: 'init', message: 'Final v1 code', parentId: null, secondParentId: null, timestamp: 1000, author: 'User' }],
             branches: [{ name: 'master', commitId: 'init' }], // Old default
             tags: [],
             head: { type: 'branch', ref: 'master' }
-        },
+        }),
         checkSuccess: (state) => {
-            const hasRemote = state.branches.some(b => b.name === 'origin/main');
+            const hasRemote = !!state.remotes.origin?.branches.some(b => b.name === 'main');
             const isMain = state.branches.some(b => b.name === 'main');
             const isMaster = state.branches.some(b => b.name === 'master');
             return hasRemote && isMain && !isMaster;
@@ -1046,15 +3930,15 @@ export const LESSONS: Lesson[] = [
         description: 'Destructively move the current branch backward in time, discarding changes.',
         task: 'Reset to HEAD~1',
         hint: 'git reset --hard HEAD~1',
-        initialState: {
+        initialState: seedState({
             commits: [
-                { id: 'good', message: 'Good', parentId: null, secondParentId: null, timestamp: 1000, author: 'User' },
-                { id: 'bad', message: 'Bad', parentId: 'good', secondParentId: null, timestamp: 2000, author: 'User' }
+                { id: 'good', message: 'Good', parentId: null, secondParentId: null, timestamp: 1000, author: 'User', tree: { 'app.js': 'start();\n' } },
+                { id: 'bad', message: 'Bad', parentId: 'good', secondParentId: null, timestamp: 2000, author: 'User', tree: { 'app.js': 'start();\nbreakEverything();\n' } }
             ],
             branches: [{ name: 'main', commitId: 'bad' }],
             tags: [],
             head: { type: 'branch', ref: 'main' }
-        },
+        }),
         checkSuccess: (state) => {
             const m = state.branches.find(b => b.name === 'main');
             return m?.commitId === 'good';
@@ -1067,15 +3951,15 @@ export const LESSONS: Lesson[] = [
         description: 'Safely undo a commit by creating a new commit that reverses the changes.',
         task: 'Revert the "Bug" commit',
         hint: 'git revert bug',
-        initialState: {
+        initialState: seedState({
             commits: [
-                { id: 'init', message: 'Init', parentId: null, secondParentId: null, timestamp: 1000, author: 'User' },
-                { id: 'bug', message: 'Bug', parentId: 'init', secondParentId: null, timestamp: 2000, author: 'User' }
+                { id: 'init', message: 'Init', parentId: null, secondParentId: null, timestamp: 1000, author: 'User', tree: { 'app.js': 'start();\n' } },
+                { id: 'bug', message: 'Bug', parentId: 'init', secondParentId: null, timestamp: 2000, author: 'User', tree: { 'app.js': 'start();\n', 'bug.js': 'throw new Error("oops");\n' } }
             ],
             branches: [{ name: 'main', commitId: 'bug' }],
             tags: [],
             head: { type: 'branch', ref: 'main' }
-        },
+        }),
         checkSuccess: (state) => state.commits.length === 3 && state.commits[2].message.includes('Revert')
     },
     {
@@ -1085,11 +3969,11 @@ export const LESSONS: Lesson[] = [
         description: 'Copy a specific commit from one branch to another.',
         task: 'Cherry-pick "feature" into main',
         hint: 'git checkout main && git cherry-pick feat',
-        initialState: {
+        initialState: seedState({
             commits: [
                 { id: 'root', message: 'Root', parentId: null, secondParentId: null, timestamp: 1000, author: 'User' },
-                { id: 'm1', message: 'Main', parentId: 'root', secondParentId: null, timestamp: 2000, author: 'User' },
-                { id: 'feat', message: 'Good Feature', parentId: 'root', secondParentId: null, timestamp: 3000, author: 'User' }
+                { id: 'm1', message: 'Main', parentId: 'root', secondParentId: null, timestamp: 2000, author: 'User', tree: { ...README, 'main.js': 'run();\n' } },
+                { id: 'feat', message: 'Good Feature', parentId: 'root', secondParentId: null, timestamp: 3000, author: 'User', tree: { ...README, 'feature.js': 'export const feature = true;\n' } }
             ],
             branches: [
                 { name: 'main', commitId: 'm1' },
@@ -1097,11 +3981,249 @@ export const LESSONS: Lesson[] = [
             ],
             tags: [],
             head: { type: 'branch', ref: 'feature' }
-        },
+        }),
         checkSuccess: (state) => {
             const m = state.branches.find(b => b.name === 'main');
             const tip = state.commits.find(c => c.id === m?.commitId);
             return tip?.message === 'Good Feature';
         }
+    },
+    {
+        id: '24_conflict',
+        section: 'Advanced Skills',
+        title: '24. Merge Conflicts',
+        description: 'Both `main` and `feature` changed the same line of `app.js`, so Git cannot merge them on its own.\n\n1. Run the merge and read the CONFLICT message\n2. Look at the conflict markers with `cat app.js`\n3. Rewrite the file with the version you want\n4. Mark it resolved with `git add` and finish with `git commit`',
+        task: 'Merge "feature" and resolve the conflict',
+        hint: 'git merge feature, then echo \'return "Hi, world";\' > app.js && git add app.js && git commit',
+        initialState: seedState({
+            commits: [
+                { id: 'base', message: 'Add greeting', parentId: null, secondParentId: null, timestamp: 1000, author: 'User', tree: { 'app.js': 'return "Hello";\n' } },
+                { id: 'ours', message: 'Greet the world', parentId: 'base', secondParentId: null, timestamp: 2000, author: 'User', tree: { 'app.js': 'return "Hello, world";\n' } },
+                { id: 'theirs', message: 'Shorter greeting', parentId: 'base', secondParentId: null, timestamp: 3000, author: 'Teammate', tree: { 'app.js': 'return "Hi";\n' } }
+            ],
+            branches: [
+                { name: 'main', commitId: 'ours' },
+                { name: 'feature', commitId: 'theirs' }
+            ],
+            tags: [],
+            head: { type: 'branch', ref: 'main' }
+        }),
+        checkSuccess: (state) => {
+            const tip = state.commits.find(c => c.id === getHeadCommitId(state));
+            return !state.merge && tip?.secondParentId === 'theirs' && !(tip.tree['app.js'] ?? '').includes('<<<<<<<');
+        }
+    },
+    {
+        id: '25_squash',
+        section: 'Advanced Skills',
+        title: '25. Squash Before a PR',
+        description: 'Your `search` branch has three messy commits. Before opening a pull request, tidy them into one with an interactive rebase.\n\n1. Run `git rebase -i main` to open the todo list\n2. Keep the first commit as `pick`\n3. Change the other two to `squash` or `fixup`\n4. Start the rebase and watch the graph rewrite the branch',
+        task: 'Squash the three "search" commits into a single commit on top of main',
+        hint: 'git rebase -i main, then set "WIP" and "Fix typo" to fixup and press Start Rebase',
+        initialState: seedState({
+            commits: [
+                { id: 'base', message: 'Initial layout', parentId: null, secondParentId: null, timestamp: 1000, author: 'User', tree: { ...README, 'index.html': '<main></main>\n' } },
+                { id: 's1', message: 'Add search box', parentId: 'base', secondParentId: null, timestamp: 2000, author: 'User', tree: { ...README, 'index.html': '<main></main>\n', 'search.js': 'export const serach = () => {};\n' } },
+                { id: 's2', message: 'WIP', parentId: 's1', secondParentId: null, timestamp: 3000, author: 'User', tree: { ...README, 'index.html': '<main><input id="q"></main>\n', 'search.js': 'export const serach = () => {};\n' } },
+                { id: 's3', message: 'Fix typo', parentId: 's2', secondParentId: null, timestamp: 4000, author: 'User', tree: { ...README, 'index.html': '<main><input id="q"></main>\n', 'search.js': 'export const search = () => {};\n' } }
+            ],
+            branches: [
+                { name: 'main', commitId: 'base' },
+                { name: 'search', commitId: 's3' }
+            ],
+            tags: [],
+            head: { type: 'branch', ref: 'search' }
+        }),
+        checkSuccess: (state) => {
+            const branch = state.branches.find(b => b.name === 'search');
+            const tip = state.commits.find(c => c.id === branch?.commitId);
+            return !state.rebase && tip?.parentId === 'base' && treesEqual(tip.tree, getCommitTree(state, 's3'));
+        }
+    },
+    {
+        id: '26_reflog',
+        section: 'Advanced Skills',
+        title: '26. Rescue Lost Commits',
+        description: 'Oops! Someone ran `git reset --hard HEAD~2` and two commits vanished from `main`. They are not gone: Git records every move of HEAD in the **reflog**.\n\n1. Run `git reflog` to see where HEAD has been\n2. Find the entry from just before the reset\n3. Move `main` back there with `git reset --hard HEAD@{1}` (or `ORIG_HEAD`)',
+        task: 'Bring the "Add tests" commit back onto main',
+        hint: 'git reflog, then git reset --hard HEAD@{1}',
+        initialState: seedState({
+            commits: [
+                { id: 'c1', message: 'Scaffold app', parentId: null, secondParentId: null, timestamp: 1000, author: 'User', tree: { ...README, 'app.js': 'start();\n' } },
+                { id: 'c2', message: 'Add API client', parentId: 'c1', secondParentId: null, timestamp: 2000, author: 'User', tree: { ...README, 'app.js': 'start();\n', 'api.js': 'export const get = fetch;\n' } },
+                { id: 'c3', message: 'Add tests', parentId: 'c2', secondParentId: null, timestamp: 3000, author: 'User', tree: { ...README, 'app.js': 'start();\n', 'api.js': 'export const get = fetch;\n', 'api.test.js': 'test("get", () => {});\n' } }
+            ],
+            branches: [{ name: 'main', commitId: 'c1' }],
+            tags: [],
+            head: { type: 'branch', ref: 'main' },
+            reflogs: {
+                HEAD: [
+                    { oldId: 'c3', newId: 'c1', message: 'reset: moving to HEAD~2', timestamp: 4000 },
+                    { oldId: 'c2', newId: 'c3', message: 'commit: Add tests', timestamp: 3000 },
+                    { oldId: 'c1', newId: 'c2', message: 'commit: Add API client', timestamp: 2000 },
+                    { oldId: null, newId: 'c1', message: 'commit (initial): Scaffold app', timestamp: 1000 }
+                ],
+                main: [
+                    { oldId: 'c3', newId: 'c1', message: 'reset: moving to HEAD~2', timestamp: 4000 },
+                    { oldId: 'c2', newId: 'c3', message: 'commit: Add tests', timestamp: 3000 },
+                    { oldId: 'c1', newId: 'c2', message: 'commit: Add API client', timestamp: 2000 },
+                    { oldId: null, newId: 'c1', message: 'commit (initial): Scaffold app', timestamp: 1000 }
+                ]
+            }
+        }),
+        checkSuccess: (state) => state.head.ref === 'main' && state.branches.find(b => b.name === 'main')?.commitId === 'c3'
+    },
+    {
+        id: '27_force_push',
+        section: 'Advanced Skills',
+        title: '27. Force-Push Safely',
+        description: 'You amended the commit on `feature` after pushing it, so your branch and `origin/feature` have diverged and a plain `git push` is rejected. Meanwhile a teammate pushed "Add login tests" on top of your old commit.\n\n`git push --force` would replace the remote branch with yours and silently throw their commit away. `git push --force-with-lease` only overwrites the remote if it still matches your `origin/feature`, so it refuses with **stale info** until you have fetched and seen their work.\n\n1. Try `git push --force-with-lease` and read the rejection\n2. `git fetch` and bring their commit over with `git cherry-pick origin/feature`\n3. Push again with `--force-with-lease`',
+        task: 'Force-push your amended commit without losing the teammate\'s tests',
+        hint: 'git fetch, then git cherry-pick origin/feature, then git push --force-with-lease',
+        initialState: seedState({
+            commits: [
+                { id: 'f0', message: 'Initial commit', parentId: null, secondParentId: null, timestamp: 1000, author: 'User', tree: { ...README } },
+                { id: 'f1', message: 'Add login', parentId: 'f0', secondParentId: null, timestamp: 2000, author: 'User', tree: { ...README, 'login.js': 'login();\n' } },
+                { id: 'f2', message: 'Add login form', parentId: 'f0', secondParentId: null, timestamp: 4000, author: 'User', tree: { ...README, 'login.js': 'renderForm();\nlogin();\n' } }
+            ],
+            branches: [
+                { name: 'main', commitId: 'f0' },
+                { name: 'feature', commitId: 'f2' }
+            ],
+            tags: [],
+            head: { type: 'branch', ref: 'feature' },
+            remotes: {
+                origin: {
+                    commits: [
+                        { id: 't1', message: 'Add login tests', parentId: 'f1', secondParentId: null, timestamp: 3000, author: 'Teammate', tree: { ...README, 'login.js': 'login();\n', 'login.test.js': 'test("login", () => {});\n' } }
+                    ],
+                    branches: [
+                        { name: 'main', commitId: 'f0' },
+                        { name: 'feature', commitId: 't1' }
+                    ]
+                }
+            },
+            remoteBranches: [
+                { name: 'origin/main', commitId: 'f0' },
+                { name: 'origin/feature', commitId: 'f1' }
+            ]
+        }),
+        mistakes: {
+            'non-fast-forward': 'The push was rejected because origin/feature has work you do not have. Run `git fetch`, bring the teammate\'s commit over with `git cherry-pick origin/feature`, then push with `--force-with-lease` again.'
+        },
+        checkSuccess: (state) => {
+            const remote = state.remotes.origin;
+            const tip = remote?.branches.find(b => b.name === 'feature')?.commitId;
+            if (!tip) return false;
+            const history = Array.from(collectReachable(remote.commits, [tip]));
+            return history.includes('f2') && !history.includes('f1')
+                && history.some(id => remote.commits.find(c => c.id === id)?.message === 'Add login tests');
+        }
+    },
+    {
+        id: '28_pull_rebase',
+        section: 'Advanced Skills',
+        title: '28. Pull with Rebase',
+        description: 'You committed on `main` while a teammate pushed to `origin/main`, so the branches have diverged. A plain `git pull` would now ask how to reconcile them, and merging would add a "Merge branch" commit every time this happens.\n\n`git pull --rebase` fetches and then replays your local commits on top of the remote ones, keeping the history a straight line. Many teams make it the default with `git config pull.rebase true`.\n\n1. Run `git fetch` and `git status` to see that you are ahead by one and behind by one\n2. Pull with `--rebase` (or set `pull.rebase` first and run `git pull`)\n3. Check `git log`: your commit now sits on top of your teammate\'s',
+        task: 'Pull the teammate\'s commit and replay yours on top without a merge commit',
+        hint: 'git pull --rebase',
+        initialState: seedState({
+            commits: [
+                { id: 'p0', message: 'Initial commit', parentId: null, secondParentId: null, timestamp: 1000, author: 'User' },
+                { id: 'p1', message: 'Add footer', parentId: 'p0', secondParentId: null, timestamp: 3000, author: 'User', tree: { ...README, 'footer.html': '<footer></footer>\n' } }
+            ],
+            branches: [{ name: 'main', commitId: 'p1' }],
+            tags: [],
+            head: { type: 'branch', ref: 'main' },
+            remotes: {
+                origin: {
+                    commits: [{ id: 'r1', message: 'Add header', parentId: 'p0', secondParentId: null, timestamp: 2000, author: 'Teammate', tree: { ...README, 'header.html': '<header></header>\n' } }],
+                    branches: [{ name: 'main', commitId: 'r1' }]
+                }
+            },
+            remoteBranches: [{ name: 'origin/main', commitId: 'p0' }]
+        }),
+        mistakes: {
+            'non-fast-forward': 'Your branch and origin/main have diverged, so Git needs to know how to combine them. Use `git pull --rebase` to replay your commit on top.'
+        },
+        checkSuccess: (state) => {
+            const main = state.branches.find(b => b.name === 'main');
+            const tip = state.commits.find(c => c.id === main?.commitId);
+            return !state.rebase && tip?.parentId === 'r1' && !tip.secondParentId && tip.message === 'Add footer';
+        }
+    },
+    {
+        id: '29_branch_cleanup',
+        section: 'Advanced Skills',
+        title: '29. Clean Up Branches',
+        description: 'Old branches pile up fast. `login` and `typo-fix` were merged into `main` long ago, but `experiment` still holds work that exists nowhere else.\n\n1. List what is safe to remove with `git branch --merged`\n2. Delete those branches with `git branch -d <name>`\n3. Try `git branch -d experiment` too: Git refuses because it is **not fully merged** (only `-D` would force it)',
+        task: 'Delete every branch already merged into main and keep experiment',
+        hint: 'git branch --merged, then git branch -d login typo-fix',
+        initialState: seedState({
+            commits: [
+                { id: 'b0', message: 'Initial commit', parentId: null, secondParentId: null, timestamp: 1000, author: 'User' },
+                { id: 'b1', message: 'Add login', parentId: 'b0', secondParentId: null, timestamp: 2000, author: 'User', tree: { ...README, 'login.js': 'login();\n' } },
+                { id: 'b2', message: 'Fix typo in README', parentId: 'b1', secondParentId: null, timestamp: 3000, author: 'User', tree: { 'README.md': '# Project\n\nWelcome!\n', 'login.js': 'login();\n' } },
+                { id: 'b3', message: 'Try a new layout', parentId: 'b2', secondParentId: null, timestamp: 4000, author: 'User', tree: { 'README.md': '# Project\n\nWelcome!\n', 'login.js': 'login();\n', 'layout.css': 'main { display: grid; }\n' } }
+            ],
+            branches: [
+                { name: 'main', commitId: 'b2' },
+                { name: 'login', commitId: 'b1' },
+                { name: 'typo-fix', commitId: 'b2' },
+                { name: 'experiment', commitId: 'b3' }
+            ],
+            tags: [],
+            head: { type: 'branch', ref: 'main' }
+        }),
+        mistakes: {
+            'not-fully-merged': 'That is Git protecting unmerged work: `experiment` has commits that exist nowhere else, so leave it and delete only the merged branches.'
+        },
+        checkSuccess: (state) => {
+            const names = state.branches.map(b => b.name).sort();
+            return names.join(',') === 'experiment,main' && state.branches.find(b => b.name === 'experiment')?.commitId === 'b3';
+        }
+    },
+    {
+        id: '30_release_tag',
+        section: 'Advanced Skills',
+        title: '30. Tag a Release',
+        description: 'A release needs a tag that says who cut it and why. Lightweight tags like `v1.0` here are just names for a commit; **annotated** tags also store a tagger, a date and a message, and `git describe` uses them to name builds.\n\n1. Run `git describe` to see how far `main` is from the last release\n2. Create an annotated tag with `git tag -a v1.1 -m "Release 1.1"`\n3. Tags are not pushed with branches, so publish it with `git push origin v1.1`',
+        task: 'Create an annotated v1.1 tag on main and push it to origin',
+        hint: 'git tag -a v1.1 -m "Release 1.1" && git push origin v1.1',
+        initialState: seedState({
+            commits: [
+                { id: 'r0', message: 'Initial commit', parentId: null, secondParentId: null, timestamp: 1000, author: 'User' },
+                { id: 'r1', message: 'Ship search', parentId: 'r0', secondParentId: null, timestamp: 2000, author: 'User', tree: { ...README, 'search.js': 'search();\n' } },
+                { id: 'r2', message: 'Fix search paging', parentId: 'r1', secondParentId: null, timestamp: 3000, author: 'User', tree: { ...README, 'search.js': 'search({ page });\n' } },
+                { id: 'r3', message: 'Add dark mode', parentId: 'r2', secondParentId: null, timestamp: 4000, author: 'User', tree: { ...README, 'search.js': 'search({ page });\n', 'theme.css': ':root { color-scheme: dark; }\n' } }
+            ],
+            branches: [{ name: 'main', commitId: 'r3' }],
+            tags: [{ name: 'v1.0', commitId: 'r1', annotation: { tagger: 'User', timestamp: 2500, message: 'Release 1.0' } }],
+            head: { type: 'branch', ref: 'main' },
+            remotes: { origin: { branches: [{ name: 'main', commitId: 'r3' }], tags: [{ name: 'v1.0', commitId: 'r1', annotation: { tagger: 'User', timestamp: 2500, message: 'Release 1.0' } }] } }
+        }),
+        checkSuccess: (state) => {
+            const tag = state.remotes.origin?.tags.find(t => t.name === 'v1.1');
+            return !!tag?.annotation && tag.commitId === 'r3';
+        }
+    },
+    {
+        id: '31_identity',
+        section: 'Advanced Skills',
+        title: '31. Who Are You?',
+        description: 'Every commit records an author. Git takes it from `user.name` and `user.email`, which is why setting them is the first thing to do on a new machine. Settings live in three scopes: **system** for the whole machine, **global** for your user and **local** for one repository, and the most specific one wins.\n\n1. Set your name with `git config --global user.name "Your Name"`\n2. Set your email with `git config --global user.email you@example.com`\n3. Check them with `git config --list --show-scope`\n4. Commit `notes.txt` and look at the author in `git log`',
+        task: 'Configure user.name and user.email, then commit notes.txt',
+        hint: 'git config --global user.name "Ada Lovelace" && git config --global user.email ada@example.com && git add notes.txt && git commit -m "Add notes"',
+        initialState: seedState({
+            commits: [{ id: 'n0', message: 'Initial commit', parentId: null, secondParentId: null, timestamp: 1000, author: 'User' }],
+            branches: [{ name: 'main', commitId: 'n0' }],
+            tags: [],
+            head: { type: 'branch', ref: 'main' },
+            workingTree: { ...README, 'notes.txt': 'Remember to set user.email\n' }
+        }),
+        checkSuccess: (state) => {
+            const head = state.commits.find(c => c.id === getHeadCommitId(state));
+            return !!head && head.id !== 'n0' && /^.+ <.+@.+>$/.test(head.author) && head.tree?.['notes.txt'] !== undefined;
+        }
     }
-];
\ No newline at end of file
+];
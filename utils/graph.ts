@@ -0,0 +1,89 @@
+export interface GraphCommit {
+    id: string;
+    parents: string[];
+}
+
+// The graph drawn next to one commit: the row with its `*`, an optional row
+// fanning out to the parents of a merge, the bars that continue past any
+// further lines of its message, and rows that fold lines which now lead to
+// the same commit back together.
+export interface GraphRow {
+    commit: string;
+    expansion: string | null;
+    padding: string;
+    collapses: string[];
+    // Column where the text after the graph starts
+    width: number;
+}
+
+const drawRow = (cells: Record<number, string>): string => {
+    const width = Math.max(-1, ...Object.keys(cells).map(Number)) + 1;
+    return Array.from({ length: width }, (_, i) => cells[i] ?? ' ').join('');
+};
+
+// Lays out commits (children before parents) the way `git log --graph` does:
+// each column waits for one commit, a commit replaces its column with its
+// parents, and columns waiting for the same commit are merged with `/`.
+export const renderGraph = (commits: GraphCommit[]): GraphRow[] => {
+    let columns: string[] = [];
+
+    return commits.map(({ id, parents }) => {
+        let idx = columns.indexOf(id);
+        if (idx === -1) {
+            columns = [...columns, id];
+            idx = columns.length - 1;
+        }
+
+        const extra = Math.max(0, parents.length - 1);
+        const commitCells: Record<number, string> = {};
+        columns.forEach((_, i) => { commitCells[i * 2] = i === idx ? '*' : '|'; });
+        // An octopus merge is drawn as `*-.` like git
+        for (let i = 1; i < 2 * (extra - 1); i++) commitCells[idx * 2 + i] = '-';
+        if (extra > 1) commitCells[idx * 2 + 2 * (extra - 1)] = '.';
+
+        // Where each line sits once the commit's column became its parents
+        const entries = [
+            ...columns.slice(0, idx).map((c, i) => ({ id: c, pos: i })),
+            ...parents.map((p, m) => ({ id: p, pos: idx + m })),
+            ...columns.slice(idx + 1).map((c, k) => ({ id: c, pos: idx + 1 + k + extra }))
+        ];
+        let expansion: string | null = null;
+        if (extra > 0) {
+            const cells: Record<number, string> = {};
+            for (let i = 0; i <= idx; i++) cells[i * 2] = '|';
+            for (let m = 1; m <= extra; m++) cells[2 * (idx + m) - 1] = '\\';
+            for (let j = idx + 1; j < columns.length; j++) cells[2 * (j + extra) - 1] = '\\';
+            expansion = drawRow(cells);
+        }
+
+        // Fold duplicate columns (and the gap a root commit leaves) leftwards,
+        // one step per row
+        const targets = Array.from(new Set(entries.map(e => e.id)));
+        const positions = entries.map(e => e.pos);
+        const goals = entries.map(e => targets.indexOf(e.id));
+        const padding = drawRow(Object.fromEntries(positions.map(p => [p * 2, '|'])));
+        const collapses: string[] = [];
+        while (positions.some((p, i) => p !== goals[i])) {
+            const cells: Record<number, string> = {};
+            positions.forEach((p, i) => {
+                if (p === goals[i]) {
+                    cells[p * 2] = '|';
+                } else {
+                    cells[p * 2 - 1] = '/';
+                    positions[i] = p - 1;
+                }
+            });
+            collapses.push(drawRow(cells));
+        }
+
+        const row: GraphRow = {
+            commit: drawRow(commitCells),
+            expansion,
+            padding,
+            collapses,
+            width: 2 * Math.max(columns.length, ...positions.map(p => p + 1), ...entries.map(e => e.pos + 1))
+        };
+        columns = targets;
+        return row;
+    });
+};
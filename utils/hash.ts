@@ -0,0 +1,114 @@
+import { FileTree } from '../types';
+
+const encoder = new TextEncoder();
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+};
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+// SHA-1 as specified in FIPS 180-4. The simulator needs it synchronously and
+// in the browser, where SubtleCrypto only offers a promise.
+export const sha1 = (data: Uint8Array): Uint8Array => {
+    const bitLength = data.length * 8;
+    const padded = new Uint8Array(Math.ceil((data.length + 9) / 64) * 64);
+    padded.set(data);
+    padded[data.length] = 0x80;
+    const view = new DataView(padded.buffer);
+    view.setUint32(padded.length - 8, Math.floor(bitLength / 2 ** 32));
+    view.setUint32(padded.length - 4, bitLength >>> 0);
+
+    const h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+    const w = new Uint32Array(80);
+    for (let block = 0; block < padded.length; block += 64) {
+        for (let i = 0; i < 16; i++) w[i] = view.getUint32(block + i * 4);
+        for (let i = 16; i < 80; i++) {
+            const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16];
+            w[i] = (x << 1) | (x >>> 31);
+        }
+
+        let [a, b, c, d, e] = h;
+        for (let i = 0; i < 80; i++) {
+            const [f, k] = i < 20 ? [(b & c) | (~b & d), 0x5a827999]
+                : i < 40 ? [b ^ c ^ d, 0x6ed9eba1]
+                    : i < 60 ? [(b & c) | (b & d) | (c & d), 0x8f1bbcdc]
+                        : [b ^ c ^ d, 0xca62c1d6];
+            const t = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) >>> 0;
+            e = d;
+            d = c;
+            c = (b << 30) | (b >>> 2);
+            b = a;
+            a = t;
+        }
+        h[0] = (h[0] + a) >>> 0;
+        h[1] = (h[1] + b) >>> 0;
+        h[2] = (h[2] + c) >>> 0;
+        h[3] = (h[3] + d) >>> 0;
+        h[4] = (h[4] + e) >>> 0;
+    }
+
+    const digest = new Uint8Array(20);
+    const out = new DataView(digest.buffer);
+    h.forEach((word, i) => out.setUint32(i * 4, word));
+    return digest;
+};
+
+// Hex SHA-1 of a string, for ids that are not git objects such as patch ids
+export const hashText = (text: string): string => toHex(sha1(encoder.encode(text)));
+
+// The id of a loose object: the hash of `<type> <size>\0<content>`.
+const hashObject = (type: string, content: Uint8Array): Uint8Array =>
+    sha1(concat(encoder.encode(`${type} ${content.length}\0`), content));
+
+// Builds the tree objects for a flat path → content map. Entries are sorted
+// the way git sorts them, with directories compared as if their name ended
+// in a slash.
+const hashTree = (files: FileTree, prefix = ''): Uint8Array => {
+    const entries = new Map<string, { mode: string; id: Uint8Array }>();
+    const dirs = new Set<string>();
+    for (const path of Object.keys(files)) {
+        if (!path.startsWith(prefix)) continue;
+        const rest = path.slice(prefix.length);
+        const slash = rest.indexOf('/');
+        if (slash === -1) entries.set(rest, { mode: '100644', id: hashObject('blob', encoder.encode(files[path])) });
+        else dirs.add(rest.slice(0, slash));
+    }
+    dirs.forEach(dir => entries.set(`${dir}/`, { mode: '40000', id: hashTree(files, `${prefix}${dir}/`) }));
+
+    const sorted = Array.from(entries.keys()).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    return hashObject('tree', concat(...sorted.flatMap(name => {
+        const { mode, id } = entries.get(name)!;
+        return [encoder.encode(`${mode} ${name.replace(/\/$/, '')}\0`), id];
+    })));
+};
+
+export interface CommitContent {
+    tree: FileTree;
+    parents: string[];
+    // `Name <email>`; the email is left empty when there is none
+    author: string;
+    timestamp: number;
+    message: string;
+}
+
+// The object id git would give a commit with this content. The author is
+// also recorded as the committer, and times are in UTC.
+export const hashCommit = ({ tree, parents, author, timestamp, message }: CommitContent): string => {
+    const ident = `${/<[^>]*>$/.test(author) ? author : `${author} <>`} ${Math.floor(timestamp / 1000)} +0000`;
+    const body = [
+        `tree ${toHex(hashTree(tree))}`,
+        ...parents.map(p => `parent ${p}`),
+        `author ${ident}`,
+        `committer ${ident}`,
+        '',
+        message.endsWith('\n') ? message : `${message}\n`
+    ].join('\n');
+    return toHex(hashObject('commit', encoder.encode(body)));
+};
@@ -140,6 +140,11 @@ export const LESSON_GUIDES: Record<string, LessonGuide> = {
         title: 'See last 5 commits',
         command: 'git log -5',
         description: 'Shows only the 5 most recent commits.'
+      },
+      {
+        title: 'Draw the graph',
+        command: 'git log --oneline --graph --all',
+        description: 'Draws every branch as ASCII lines, the same shape as the graph next to the terminal.'
       }
     ],
     commonUseCases: [
@@ -150,7 +155,8 @@ export const LESSON_GUIDES: Record<string, LessonGuide> = {
     tips: [
       'Use arrow keys to scroll through log output',
       'Press "q" to quit the log viewer',
-      'Combine with --graph to see branch structure visually'
+      'Combine with --graph to see branch structure visually',
+      'Filter with --author, --grep or --since="2 weeks ago"'
     ]
   },
   '6_branch': {
@@ -375,18 +381,23 @@ export const LESSON_GUIDES: Record<string, LessonGuide> = {
     ]
   },
   '15_fetch': {
-    explanation: '`git fetch` downloads new commits from a remote without merging them into your current branch. It updates your knowledge of what\'s on the remote, but doesn\'t change your working files. It\'s like checking for updates without installing them yet.',
+    explanation: '`git fetch` downloads everything new on a remote - commits, branches and tags - and updates your remote-tracking branches such as `origin/main`. It never moves your own branches or touches your working files. It\'s like checking for updates without installing them yet.',
     whyImportant: 'Fetching lets you see what others have done without changing your code. You can review changes before deciding to merge them.',
     examples: [
       {
         title: 'Fetch from remote',
         command: 'git fetch origin',
-        description: 'Downloads new commits from origin but doesn\'t merge them. Your files stay the same.'
+        description: 'Downloads new commits, branches and tags from origin. `origin/main` moves, your `main` stays put.'
+      },
+      {
+        title: 'Clean up deleted branches',
+        command: 'git fetch --prune',
+        description: 'Also removes remote-tracking branches whose branch was deleted on the remote.'
       },
       {
         title: 'Fetch all remotes',
-        command: 'git fetch',
-        description: 'Fetches from all configured remotes.'
+        command: 'git fetch --all',
+        description: 'Fetches from every configured remote, not just origin.'
       }
     ],
     commonUseCases: [
@@ -396,7 +407,8 @@ export const LESSON_GUIDES: Record<string, LessonGuide> = {
     ],
     tips: [
       'Fetch is safe - it never changes your working files',
-      'After fetching, you can see remote branches with `git branch -r`',
+      'Read the output: `old..new` means a branch moved forward, `[new branch]` and `[new tag]` are new arrivals',
+      'After fetching, compare with `git log main..origin/main` to see what is new',
       'Fetch + merge = pull (but fetch gives you more control)'
     ]
   },
@@ -548,7 +560,8 @@ export const LESSON_GUIDES: Record<string, LessonGuide> = {
     tips: [
       'You only need to add the remote once',
       'Use -u flag to set upstream tracking',
-      'After publishing, you can just use `git push`'
+      'After publishing, you can just use `git push`',
+      'Check what each branch tracks with `git branch -vv`'
     ]
   },
   '21_feature_cycle': {
@@ -580,6 +593,11 @@ export const LESSON_GUIDES: Record<string, LessonGuide> = {
         title: 'Hotfix workflow',
         command: 'git checkout main\ngit checkout -b hotfix-v1\ngit commit -m "Fix critical bug"\ngit checkout main\ngit merge hotfix-v1',
         description: 'Switches to main, creates hotfix branch, fixes issue, merges back to main. This is the standard hotfix process.'
+      },
+      {
+        title: 'Park unfinished work first',
+        command: 'git stash\n# ...do the hotfix...\ngit checkout feature\ngit stash pop',
+        description: 'Stash saves your uncommitted changes and cleans the working tree, so you can switch branches safely and restore the work afterwards.'
       }
     ],
     commonUseCases: [
@@ -589,6 +607,7 @@ export const LESSON_GUIDES: Record<string, LessonGuide> = {
     ],
     tips: [
       'Hotfixes should be small and focused',
+      'Use `git stash list` to see what you have parked',
       'Always merge back to main immediately',
       'Test thoroughly before merging'
     ]
@@ -613,6 +632,264 @@ export const LESSON_GUIDES: Record<string, LessonGuide> = {
       'The -M flag renames the branch',
       'After this, you can use `git push` normally'
     ]
+  },
+  '24_conflict': {
+    explanation: 'A merge conflict happens when both branches changed the same lines of a file. Git stops the merge, writes both versions into the file between conflict markers, and waits for you to decide what the result should be.',
+    whyImportant: 'Conflicts are a normal part of working in a team. Knowing how to read the markers and finish the merge calmly turns a scary moment into a routine one.',
+    examples: [
+      {
+        title: 'See which files conflict',
+        command: 'git status',
+        description: 'Lists the files under "Unmerged paths". These are the ones you need to fix.'
+      },
+      {
+        title: 'Mark a file as resolved',
+        command: 'git add app.js',
+        description: 'After editing the file and removing the markers, staging it tells Git the conflict is resolved.'
+      },
+      {
+        title: 'Give up and start over',
+        command: 'git merge --abort',
+        description: 'Puts your branch and files back exactly as they were before the merge.'
+      }
+    ],
+    commonUseCases: [
+      'Two teammates edited the same function',
+      'Pulling changes that touch lines you also changed',
+      'Merging a long-lived feature branch back into main'
+    ],
+    tips: [
+      'Everything between <<<<<<< and ======= is your version (HEAD)',
+      'Everything between ======= and >>>>>>> is the incoming version',
+      'Delete all three marker lines before you `git add` the file',
+      'Finish with `git commit` (or `git merge --continue`)'
+    ],
+    visualExplanation: '<<<<<<< HEAD\nreturn "Hello, world";\n=======\nreturn "Hi";\n>>>>>>> feature'
+  },
+  '25_squash': {
+    explanation: 'An interactive rebase replays your commits one at a time from a todo list you can edit first. Marking a commit as `squash` or `fixup` melds it into the commit above it, so a trail of "WIP" commits becomes one clean change.',
+    whyImportant: 'Reviewers read history commit by commit. Squashing work-in-progress noise before opening a pull request keeps the project history easy to follow and easy to revert.',
+    examples: [
+      {
+        title: 'Open the todo list',
+        command: 'git rebase -i main',
+        description: 'Lists every commit on your branch that is not on main, oldest first.'
+      },
+      {
+        title: 'Stop to change a commit',
+        command: 'git rebase --continue',
+        description: 'After an `edit` stop or a resolved conflict, carries on with the rest of the list.'
+      },
+      {
+        title: 'Back out completely',
+        command: 'git rebase --abort',
+        description: 'Returns the branch to exactly where it was before the rebase started.'
+      }
+    ],
+    commonUseCases: [
+      'Cleaning up "WIP" and "fix typo" commits before a pull request',
+      'Rewording an unclear commit message',
+      'Reordering or dropping commits that do not belong on the branch'
+    ],
+    tips: [
+      '`squash` keeps both messages, `fixup` keeps only the first one',
+      '`reword` lets you type a new message right in the todo editor',
+      'If a step conflicts, fix the files, `git add` them and run `git rebase --continue`',
+      'Only rewrite commits you have not shared yet'
+    ],
+    visualExplanation: 'pick   a1b2c3 Add search box\nfixup  d4e5f6 WIP\nfixup  789abc Fix typo\n\n→ one commit: "Add search box"'
+  },
+  '26_reflog': {
+    explanation: 'The reflog is a local diary of every position HEAD and each branch have pointed to: commits, checkouts, resets, merges and rebases. Commits that no branch reaches any more are still listed there, so you can jump back to them.',
+    whyImportant: 'A hard reset or a botched rebase feels like losing work, but it almost never is. Knowing the reflog turns "I destroyed my branch" into a one-line fix.',
+    examples: [
+      {
+        title: 'See where HEAD has been',
+        command: 'git reflog',
+        description: 'Newest entry first. HEAD@{0} is where you are now, HEAD@{1} is the step before.'
+      },
+      {
+        title: 'Undo the last reset',
+        command: 'git reset --hard HEAD@{1}',
+        description: 'Moves the branch back to where HEAD was one move ago.'
+      },
+      {
+        title: 'Use ORIG_HEAD',
+        command: 'git reset --hard ORIG_HEAD',
+        description: 'Reset, merge and rebase save the previous HEAD in ORIG_HEAD before they move it.'
+      }
+    ],
+    commonUseCases: [
+      'Recovering from an accidental `git reset --hard`',
+      'Getting back the original commits after a rebase',
+      'Finding a commit from a branch you already deleted'
+    ],
+    tips: [
+      'The reflog is local only and is never pushed',
+      '`main@{2}` reads the history of a single branch instead of HEAD',
+      'Inspect an entry with `git show HEAD@{1}` before resetting to it'
+    ],
+    visualExplanation: 'c1 HEAD@{0}: reset: moving to HEAD~2\nc3 HEAD@{1}: commit: Add tests\nc2 HEAD@{2}: commit: Add API client'
+  },
+  '27_force_push': {
+    explanation: 'A force-push replaces a remote branch with your local one even when that throws away commits the remote has. `--force-with-lease` adds a safety check: the push only goes through if the remote branch is still where your remote-tracking branch says it is.',
+    whyImportant: 'After amending or rebasing pushed commits you have to force-push, but anything a teammate pushed in the meantime would vanish from the branch. The lease turns that silent loss into a rejection you can react to.',
+    examples: [
+      {
+        title: 'Overwrite only what you have seen',
+        command: 'git push --force-with-lease',
+        description: 'Rejected with "stale info" if someone pushed since your last fetch.'
+      },
+      {
+        title: 'Overwrite unconditionally',
+        command: 'git push --force',
+        description: 'Replaces the remote branch no matter what is on it. Commits only the remote had are dropped.'
+      },
+      {
+        title: 'Force a single refspec',
+        command: 'git push origin +feature:feature',
+        description: 'A leading `+` forces just that ref.'
+      }
+    ],
+    commonUseCases: [
+      'Publishing a rebased or amended feature branch',
+      'Cleaning up history on a branch only you work on',
+      'Deleting a remote branch with `git push origin --delete <branch>`'
+    ],
+    tips: [
+      'Prefer `--force-with-lease` over `--force` on any shared branch',
+      'Fetching updates your remote-tracking branches and with them the lease, so look at what arrived before pushing again',
+      'Never force-push `main` unless the whole team agrees'
+    ],
+    visualExplanation: 'origin:  f0 ── f1 ── t1\nlocal:   f0 ── f2\n\n--force:             f0 ── f2        (t1 lost)\n--force-with-lease:  ! [rejected] (stale info)'
+  },
+  '28_pull_rebase': {
+    explanation: '`git pull` is a fetch followed by a way of integrating the upstream branch. When both sides have new commits you choose how: merge them (`--no-rebase`), replay your commits on top (`--rebase`), or refuse unless a fast-forward is possible (`--ff-only`).',
+    whyImportant: 'Merging on every pull fills the history with "Merge branch" commits that say nothing. Rebasing keeps your local work on top of what the team already shared, so the log reads as one straight line.',
+    examples: [
+      {
+        title: 'Pull and rebase',
+        command: 'git pull --rebase',
+        description: 'Fetches, then replays your local commits on top of the upstream branch.'
+      },
+      {
+        title: 'Make it the default',
+        command: 'git config pull.rebase true',
+        description: 'A plain `git pull` rebases from now on. `--no-rebase` still merges when you want to.'
+      },
+      {
+        title: 'Only fast-forward',
+        command: 'git pull --ff-only',
+        description: 'Updates the branch only if you have no local commits, otherwise stops without changing anything.'
+      }
+    ],
+    commonUseCases: [
+      'Updating a branch you have committed on before pushing',
+      'Keeping a shared main branch free of merge commits',
+      'Syncing a branch you never commit on with `--ff-only`'
+    ],
+    tips: [
+      'If the rebase hits a conflict, fix it and run `git rebase --continue`',
+      'Only rebase commits you have not pushed yet',
+      'Setting `pull.ff only` makes a pull stop instead of surprising you with a merge'
+    ],
+    visualExplanation: 'Before:  p0 ── p1 (main)\n           └── r1 (origin/main)\n\nAfter:   p0 ── r1 ── p1\' (main)'
+  },
+  '29_branch_cleanup': {
+    explanation: 'A branch is just a name for a commit, so deleting one never deletes history that another branch still reaches. `git branch -d` only removes a branch whose commits are already part of HEAD (or of its upstream), and `--merged`/`--no-merged` show which branches those are.',
+    whyImportant: 'A long list of stale branches hides the ones that matter. Cleaning up regularly keeps `git branch` readable, and the "not fully merged" check means you cannot throw away unmerged work by accident.',
+    examples: [
+      {
+        title: 'List branches merged into the current one',
+        command: 'git branch --merged',
+        description: 'Every branch shown here can be deleted with `-d` without losing commits.'
+      },
+      {
+        title: 'Delete merged branches',
+        command: 'git branch -d login typo-fix',
+        description: 'Prints the commit each branch pointed to, in case you need it back.'
+      },
+      {
+        title: 'Rename a branch',
+        command: 'git branch -m old-name new-name',
+        description: 'Keeps the branch\'s commits, reflog and upstream.'
+      }
+    ],
+    commonUseCases: [
+      'Removing feature branches after their pull request was merged',
+      'Finding forgotten work with `git branch --no-merged`',
+      'Dropping stale remote-tracking branches with `git branch -dr origin/<name>`'
+    ],
+    tips: [
+      '`-D` deletes a branch even if it is not merged; the reflog is the only way back',
+      'You cannot delete the branch you are on; switch away first',
+      '`git branch -a` shows remote-tracking branches next to your own'
+    ],
+    visualExplanation: 'b0 ── b1 (login) ── b2 (main, typo-fix) ── b3 (experiment)\n\n--merged:    login, main, typo-fix\n--no-merged: experiment'
+  },
+  '30_release_tag': {
+    explanation: 'Git has two kinds of tags. A lightweight tag is only a name for a commit. An annotated tag is an object of its own with the tagger, a date and a message, which is what releases should use.',
+    whyImportant: 'Release tags mark exactly what shipped. Annotated tags record who made the release and why, and tools like `git describe` rely on them to give every build a readable version such as `v1.0-2-gab12cd3`.',
+    examples: [
+      {
+        title: 'Create an annotated tag',
+        command: 'git tag -a v1.1 -m "Release 1.1"',
+        description: 'Tags the current commit. Add a commit after the name to tag an older one.'
+      },
+      {
+        title: 'Describe a commit',
+        command: 'git describe',
+        description: 'Nearest annotated tag, commits since then and the abbreviated id. `--tags` also considers lightweight tags.'
+      },
+      {
+        title: 'Publish the tag',
+        command: 'git push origin v1.1',
+        description: 'Tags stay local until you push them, one by one or all with `--tags`.'
+      }
+    ],
+    commonUseCases: [
+      'Marking a version that was released to users',
+      'Listing past releases with `git tag -l "v1.*"`',
+      'Inspecting a release with `git show v1.0`'
+    ],
+    tips: [
+      'Tag names follow the same rules as branch names',
+      'Fix a wrong tag with `git tag -d` or `git tag -f`, before pushing it',
+      'On the graph annotated tags are solid, lightweight ones outlined'
+    ],
+    visualExplanation: 'r0 ── r1 (v1.0) ── r2 ── r3 (main)\n\ngit describe  →  v1.0-2-gr3'
+  },
+  '31_identity': {
+    explanation: '`git config` reads and writes settings. The author of every commit comes from `user.name` and `user.email`, and other settings choose defaults such as the first branch of `git init` (`init.defaultBranch`) or how `git pull` integrates (`pull.rebase`).',
+    whyImportant: 'Commits carry your name and email forever, and hosts like GitHub use the email to link commits to your account. Set them once with `--global` and every repository on the machine uses them.',
+    examples: [
+      {
+        title: 'Set your identity',
+        command: 'git config --global user.name "Ada Lovelace"',
+        description: 'Without a scope flag, `git config` writes to the current repository only.'
+      },
+      {
+        title: 'See every setting',
+        command: 'git config --list --show-scope',
+        description: 'Lists system, global and local settings in that order. The last value for a name wins.'
+      },
+      {
+        title: 'Create an alias',
+        command: 'git config --global alias.st "status -s"',
+        description: 'Now `git st` runs `git status -s`. Aliases starting with `!` run a shell command.'
+      }
+    ],
+    commonUseCases: [
+      'Setting up git on a new computer',
+      'Using a work email in one repository with `git config user.email`',
+      'Starting new repositories on `main` with `git config --global init.defaultBranch main`'
+    ],
+    tips: [
+      'Run `git config user.name` to see the value git will use',
+      'Remove a setting with `git config --unset <name>`',
+      'Aliases cannot replace built-in commands'
+    ],
+    visualExplanation: 'system  /etc/gitconfig\n   ↓ overridden by\nglobal  ~/.gitconfig\n   ↓ overridden by\nlocal   .git/config'
   }
 };
 
@@ -0,0 +1,113 @@
+import { FileTree, MergeConflict } from '../types';
+import { diffLines, splitLines } from './diff';
+
+// Maps each line index of `base` to its matching line index in `other`.
+const matchLines = (base: string[], other: string[]): Map<number, number> => {
+    const matches = new Map<number, number>();
+    diffLines(base, other).forEach(l => {
+        if (l.type === 'context') matches.set(l.oldNumber! - 1, l.newNumber! - 1);
+    });
+    return matches;
+};
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, idx) => line === b[idx]);
+
+// Line-based diff3: regions where only one side changed take that side, regions
+// where both sides made different changes become conflict hunks.
+export const mergeFileContents = (
+    base: string,
+    ours: string,
+    theirs: string,
+    labels: { ours: string; theirs: string }
+): { content: string; conflicted: boolean } => {
+    const baseLines = splitLines(base);
+    const ourLines = splitLines(ours);
+    const theirLines = splitLines(theirs);
+    const ourMatches = matchLines(baseLines, ourLines);
+    const theirMatches = matchLines(baseLines, theirLines);
+
+    const output: string[] = [];
+    let conflicted = false;
+    let i = 0;
+    let j = 0;
+    let k = 0;
+
+    const resolveChunk = (baseEnd: number, ourEnd: number, theirEnd: number) => {
+        const baseChunk = baseLines.slice(i, baseEnd);
+        const ourChunk = ourLines.slice(j, ourEnd);
+        const theirChunk = theirLines.slice(k, theirEnd);
+        if (sameLines(ourChunk, baseChunk)) output.push(...theirChunk);
+        else if (sameLines(theirChunk, baseChunk) || sameLines(ourChunk, theirChunk)) output.push(...ourChunk);
+        else {
+            conflicted = true;
+            output.push(`<<<<<<< ${labels.ours}`, ...ourChunk, '=======', ...theirChunk, `>>>>>>> ${labels.theirs}`);
+        }
+    };
+
+    while (i < baseLines.length) {
+        let stable = i;
+        while (stable < baseLines.length && !(ourMatches.has(stable) && theirMatches.has(stable))) stable++;
+        if (stable === baseLines.length) break;
+
+        const ourEnd = ourMatches.get(stable)!;
+        const theirEnd = theirMatches.get(stable)!;
+        if (stable > i || ourEnd > j || theirEnd > k) resolveChunk(stable, ourEnd, theirEnd);
+        output.push(baseLines[stable]);
+        i = stable + 1;
+        j = ourEnd + 1;
+        k = theirEnd + 1;
+    }
+    if (i < baseLines.length || j < ourLines.length || k < theirLines.length) {
+        resolveChunk(baseLines.length, ourLines.length, theirLines.length);
+    }
+
+    return { content: output.length > 0 ? `${output.join('\n')}\n` : '', conflicted };
+};
+
+// Three-way merge of whole trees. Conflicted files get conflict markers (or
+// the surviving side of a modify/delete) and are reported in `conflicts`.
+export const mergeTrees = (
+    base: FileTree,
+    ours: FileTree,
+    theirs: FileTree,
+    labels: { ours: string; theirs: string }
+): { tree: FileTree; conflicts: MergeConflict[]; autoMerged: string[] } => {
+    const tree: FileTree = {};
+    const conflicts: MergeConflict[] = [];
+    const autoMerged: string[] = [];
+    const paths = Array.from(new Set([...Object.keys(base), ...Object.keys(ours), ...Object.keys(theirs)])).sort();
+
+    for (const path of paths) {
+        const b = base[path];
+        const o = ours[path];
+        const t = theirs[path];
+        let result: string | undefined;
+
+        if (o === t || t === b) {
+            result = o;
+        } else if (o === b) {
+            result = t;
+        } else if (o === undefined || t === undefined) {
+            result = o ?? t;
+            conflicts.push({ path, kind: o === undefined ? 'deleted by us' : 'deleted by them' });
+        } else {
+            const merged = mergeFileContents(b ?? '', o, t, labels);
+            result = merged.content;
+            autoMerged.push(path);
+            if (merged.conflicted) conflicts.push({ path, kind: b === undefined ? 'both added' : 'both modified' });
+        }
+
+        if (result !== undefined) tree[path] = result;
+    }
+
+    return { tree, conflicts, autoMerged };
+};
+
+export const formatConflictReport = (conflicts: MergeConflict[], autoMerged: string[], theirsLabel: string): string[] => [
+    ...autoMerged.map(p => `Auto-merging ${p}`),
+    ...conflicts.map(c => c.kind === 'both modified' || c.kind === 'both added'
+        ? `CONFLICT (${c.kind === 'both added' ? 'add/add' : 'content'}): Merge conflict in ${c.path}`
+        : c.kind === 'deleted by them'
+            ? `CONFLICT (modify/delete): ${c.path} deleted in ${theirsLabel} and modified in HEAD.  Version HEAD of ${c.path} left in tree.`
+            : `CONFLICT (modify/delete): ${c.path} deleted in HEAD and modified in ${theirsLabel}.  Version ${theirsLabel} of ${c.path} left in tree.`)
+];
@@ -0,0 +1,168 @@
+export type Connector = ';' | '&&' | '||';
+
+export interface Redirect {
+    path: string;
+    append: boolean;
+}
+
+export interface SimpleCommand {
+    argv: string[];
+    redirect: Redirect | null;
+}
+
+export interface CommandListItem {
+    // How this command is chained to the one before it (null for the first)
+    connector: Connector | null;
+    command: SimpleCommand;
+}
+
+type Token = { type: 'word'; value: string } | { type: 'op'; value: string };
+
+const OPERATORS = ['&&', '||', '>>', ';', '>', '|', '&'];
+
+// Splits a command line into words and operators following POSIX shell
+// quoting: single quotes are literal, double quotes allow \" \\ \$ and \`
+// escapes, a backslash outside quotes escapes the next character and an
+// unquoted # starts a comment.
+export const tokenize = (input: string): { tokens: Token[]; error: string | null } => {
+    const tokens: Token[] = [];
+    let word = '';
+    let inWord = false;
+    let i = 0;
+
+    const endWord = () => {
+        if (inWord) tokens.push({ type: 'word', value: word });
+        word = '';
+        inWord = false;
+    };
+
+    while (i < input.length) {
+        const ch = input[i];
+
+        if (/\s/.test(ch)) {
+            endWord();
+            i++;
+        } else if (ch === '#' && !inWord) {
+            break;
+        } else if (ch === "'") {
+            const close = input.indexOf("'", i + 1);
+            if (close === -1) return { tokens, error: "unexpected EOF while looking for matching `''" };
+            word += input.slice(i + 1, close);
+            inWord = true;
+            i = close + 1;
+        } else if (ch === '"') {
+            i++;
+            while (i < input.length && input[i] !== '"') {
+                if (input[i] === '\\' && i + 1 < input.length && '"\\$`'.includes(input[i + 1])) i++;
+                word += input[i];
+                i++;
+            }
+            if (i >= input.length) return { tokens, error: 'unexpected EOF while looking for matching `"\'' };
+            inWord = true;
+            i++;
+        } else if (ch === '\\') {
+            if (i + 1 < input.length) word += input[i + 1];
+            inWord = true;
+            i += 2;
+        } else {
+            const op = OPERATORS.find(o => input.startsWith(o, i));
+            if (op) {
+                endWord();
+                tokens.push({ type: 'op', value: op });
+                i += op.length;
+            } else {
+                word += ch;
+                inWord = true;
+                i++;
+            }
+        }
+    }
+    endWord();
+    return { tokens, error: null };
+};
+
+// Parses a command line into a list of simple commands joined by `;`, `&&`
+// and `||`, each with an optional `>`/`>>` redirect of its output.
+export const parseCommandLine = (input: string): { commands: CommandListItem[]; error: string | null } => {
+    const { tokens, error } = tokenize(input);
+    if (error) return { commands: [], error: `syntax error: ${error}` };
+
+    const commands: CommandListItem[] = [];
+    let connector: Connector | null = null;
+    let current: SimpleCommand = { argv: [], redirect: null };
+    const unexpected = (token: string) => ({ commands: [], error: `syntax error near unexpected token \`${token}'` });
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.type === 'word') {
+            current.argv.push(token.value);
+        } else if (token.value === '>' || token.value === '>>') {
+            const target = tokens[i + 1];
+            if (!target || target.type !== 'word') return unexpected(target?.value ?? 'newline');
+            current.redirect = { path: target.value, append: token.value === '>>' };
+            i++;
+        } else if (token.value === ';' || token.value === '&&' || token.value === '||') {
+            if (current.argv.length === 0) return unexpected(token.value);
+            commands.push({ connector, command: current });
+            connector = token.value;
+            current = { argv: [], redirect: null };
+        } else {
+            return { commands: [], error: `${token.value}: pipes and background jobs are not supported` };
+        }
+    }
+
+    if (current.argv.length > 0) commands.push({ connector, command: current });
+    else if (connector === '&&' || connector === '||') return { commands: [], error: 'syntax error: unexpected end of file' };
+    return { commands, error: null };
+};
+
+export interface ParsedArgs {
+    positional: string[];
+    flags: Set<string>;
+    values: Record<string, string[]>;
+    // Everything after a bare `--`
+    paths: string[];
+}
+
+// Splits arguments into flags, option values and operands the way git's
+// option parser does: short flags can be bundled (`-am`), options that take a
+// value accept it attached (`-mmsg`, `--message=msg`) or as the next argument,
+// and repeated options collect every value. `valueOptions` maps each option
+// that takes a value to the key its values are stored under.
+export const parseArgs = (args: string[], valueOptions: Record<string, string> = {}): ParsedArgs => {
+    const parsed: ParsedArgs = { positional: [], flags: new Set(), values: {}, paths: [] };
+    const addValue = (key: string, value: string | undefined) => {
+        if (value !== undefined) parsed.values[key] = [...(parsed.values[key] ?? []), value];
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--') {
+            parsed.paths = args.slice(i + 1);
+            break;
+        }
+
+        if (arg.startsWith('--')) {
+            const eq = arg.indexOf('=');
+            const name = eq === -1 ? arg : arg.slice(0, eq);
+            parsed.flags.add(name);
+            if (eq !== -1) addValue(valueOptions[name] ?? name, arg.slice(eq + 1));
+            else if (valueOptions[name]) addValue(valueOptions[name], args[++i]);
+        } else if (/^-\d+$/.test(arg)) {
+            // `git log -3` style counts
+            parsed.flags.add(arg);
+        } else if (arg.startsWith('-') && arg.length > 1) {
+            for (let j = 1; j < arg.length; j++) {
+                const flag = `-${arg[j]}`;
+                parsed.flags.add(flag);
+                if (valueOptions[flag]) {
+                    addValue(valueOptions[flag], j + 1 < arg.length ? arg.slice(j + 1) : args[++i]);
+                    break;
+                }
+            }
+        } else {
+            parsed.positional.push(arg);
+        }
+    }
+    return parsed;
+};